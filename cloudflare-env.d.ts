@@ -7,6 +7,11 @@ declare namespace Cloudflare {
 		WORKER_SELF_REFERENCE: Fetcher /* andela-chatbot-app */;
 		IMAGES: ImagesBinding;
 		ASSETS: Fetcher;
+		CONVERSATIONS: KVNamespace;
+		RATE_LIMITS: KVNamespace;
+		USAGE: KVNamespace;
+		CHAT_SETTINGS: KVNamespace;
+		ATTACHMENTS: KVNamespace;
 	}
 }
 interface CloudflareEnv extends Cloudflare.Env {}
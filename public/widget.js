@@ -0,0 +1,159 @@
+/*
+ * Support chat widget. Add it to any page with
+ *
+ *   <script src="https://<chat host>/widget.js" data-brand="techgear" async></script>
+ *
+ * Optional attributes: data-position="left", data-accent="#2563eb" (launcher
+ * color), data-open="true" (start open).
+ *
+ * It adds a launcher bubble that opens the chat (`/embed`) in an iframe, and
+ * exposes `window.SupportChat`:
+ *
+ *   SupportChat.open() / close() / toggle() / isOpen()
+ *   SupportChat.setContext({ customerId, sku, pageUrl, cart: [{ sku, name, quantity, price }] })
+ *   SupportChat.on(type, handler) / off(type, handler)
+ *
+ * Events: ready, open, close, conversation_started, conversation_ended,
+ * escalation ({ conversationId, status, agentName }) and error ({ code,
+ * message }, e.g. when setContext is given an invalid context). Each is also posted to
+ * the page as `{ source: "support-chat", type, ... }`, and the page can drive
+ * the widget by posting `{ source: "support-chat-host", type: "open" | "close"
+ * | "toggle" | "context", context }` to itself. Calls made before the script
+ * loads can be queued as `window.SupportChat = [["setContext", {...}], ["open"]]`.
+ */
+(function () {
+	"use strict";
+
+	var HOST_SOURCE = "support-chat-host";
+	var WIDGET_SOURCE = "support-chat";
+
+	if (window.SupportChat && !Array.isArray(window.SupportChat)) return;
+	var queued = Array.isArray(window.SupportChat) ? window.SupportChat : [];
+
+	var script = document.currentScript;
+	var chatOrigin = new URL(script.src).origin;
+	var brand = script.getAttribute("data-brand");
+	var side = script.getAttribute("data-position") === "left" ? "left" : "right";
+	var accent = script.getAttribute("data-accent") || "#2563eb";
+
+	var style = document.createElement("style");
+	style.textContent =
+		".support-chat-launcher{position:fixed;bottom:20px;" + side + ":20px;z-index:2147483646;width:56px;height:56px;border:0;border-radius:50%;" +
+		"background:" + accent + ";color:#fff;cursor:pointer;box-shadow:0 4px 16px rgba(0,0,0,.3);display:flex;align-items:center;justify-content:center}" +
+		".support-chat-frame{position:fixed;bottom:88px;" + side + ":20px;z-index:2147483647;width:400px;height:640px;max-height:calc(100vh - 108px);" +
+		"border:1px solid #252525;border-radius:16px;box-shadow:0 8px 32px rgba(0,0,0,.4);background:#0c0c0c;display:none}" +
+		".support-chat-frame.support-chat-open{display:block}" +
+		"@media (max-width:480px){.support-chat-frame{inset:0;width:100%;height:100%;max-height:none;border-radius:0}}";
+	document.head.appendChild(style);
+
+	var launcher = document.createElement("button");
+	launcher.type = "button";
+	launcher.className = "support-chat-launcher";
+	launcher.setAttribute("aria-label", "Open support chat");
+	launcher.innerHTML =
+		'<svg width="26" height="26" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">' +
+		'<path d="M21 15a2 2 0 01-2 2H7l-4 4V5a2 2 0 012-2h14a2 2 0 012 2z"/></svg>';
+
+	var frame = document.createElement("iframe");
+	frame.className = "support-chat-frame";
+	frame.title = "Support chat";
+	frame.allow = "clipboard-write";
+	frame.src = chatOrigin + "/embed" + (brand ? "?brand=" + encodeURIComponent(brand) : "");
+
+	var listeners = {};
+	var context = null;
+	var ready = false;
+	var open = false;
+
+	function emit(type, detail) {
+		var event = Object.assign({ type: type }, detail);
+		(listeners[type] || []).slice().forEach(function (handler) {
+			try {
+				handler(event);
+			} catch (error) {
+				console.error("[SupportChat] " + type + " handler failed:", error);
+			}
+		});
+		window.postMessage(Object.assign({ source: WIDGET_SOURCE }, event), window.location.origin);
+	}
+
+	function toFrame(message) {
+		if (ready) frame.contentWindow.postMessage(Object.assign({ source: HOST_SOURCE }, message), chatOrigin);
+	}
+
+	function setOpen(next) {
+		if (next === open) return;
+		open = next;
+		frame.classList.toggle("support-chat-open", open);
+		launcher.setAttribute("aria-label", open ? "Close support chat" : "Open support chat");
+		emit(open ? "open" : "close");
+	}
+
+	var api = {
+		open: function () {
+			setOpen(true);
+		},
+		close: function () {
+			setOpen(false);
+		},
+		toggle: function () {
+			setOpen(!open);
+		},
+		isOpen: function () {
+			return open;
+		},
+		setContext: function (next) {
+			context = next || null;
+			toFrame({ type: "context", context: context || {} });
+		},
+		on: function (type, handler) {
+			(listeners[type] = listeners[type] || []).push(handler);
+		},
+		off: function (type, handler) {
+			listeners[type] = (listeners[type] || []).filter(function (h) {
+				return h !== handler;
+			});
+		},
+	};
+
+	window.addEventListener("message", function (event) {
+		var data = event.data;
+		if (!data || typeof data !== "object") return;
+
+		if (event.source === frame.contentWindow && event.origin === chatOrigin && data.source === WIDGET_SOURCE) {
+			if (data.type === "ready") {
+				ready = true;
+				toFrame({ type: "init", context: context || undefined });
+				emit("ready");
+			} else if (data.type === "close") {
+				setOpen(false);
+			} else {
+				var detail = Object.assign({}, data);
+				delete detail.source;
+				delete detail.type;
+				emit(data.type, detail);
+			}
+		} else if (event.source === window && data.source === HOST_SOURCE) {
+			if (data.type === "open") api.open();
+			else if (data.type === "close") api.close();
+			else if (data.type === "toggle") api.toggle();
+			else if (data.type === "context") api.setContext(data.context);
+		}
+	});
+
+	launcher.addEventListener("click", api.toggle);
+
+	function mount() {
+		document.body.appendChild(frame);
+		document.body.appendChild(launcher);
+	}
+	if (document.body) mount();
+	else document.addEventListener("DOMContentLoaded", mount);
+
+	window.SupportChat = api;
+	queued.forEach(function (call) {
+		var method = api[call[0]];
+		if (typeof method === "function") method.apply(api, call.slice(1));
+	});
+	if (script.getAttribute("data-open") === "true") api.open();
+})();
@@ -0,0 +1,21 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import ChatApp from "@/components/ChatApp";
+import { resolveBrand, toPublicBrand } from "@/lib/brands";
+import { getChatSettings, toPublicSettings } from "@/lib/chat-settings";
+
+interface BrandPageProps {
+	params: Promise<{ brand: string }>;
+}
+
+export async function generateMetadata({ params }: BrandPageProps): Promise<Metadata> {
+	const brand = resolveBrand({ id: (await params).brand });
+	return brand ? { title: `${brand.name} Support`, description: `Customer support chat for ${brand.name}` } : {};
+}
+
+/** Serves a brand at `/<brand id>`, for storefronts that share a hostname. */
+export default async function BrandPage({ params }: BrandPageProps) {
+	const brand = resolveBrand({ id: (await params).brand });
+	if (!brand) notFound();
+	return <ChatApp brand={toPublicBrand(brand)} options={toPublicSettings(await getChatSettings())} />;
+}
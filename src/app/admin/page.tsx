@@ -0,0 +1,370 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+import {
+	AdminRequestError,
+	adminRequest,
+	clearStoredToken,
+	getStoredToken,
+	storeToken,
+	UnauthorizedError,
+} from "@/lib/admin-client";
+import type { ValidationIssue } from "@/lib/chat-contract";
+import type { ChatSettings, SettingsVersion, SettingsVersionSummary } from "@/lib/chat-settings/types";
+
+interface SettingsResponse {
+	current: SettingsVersion;
+	versions: SettingsVersionSummary[];
+	variables: Record<string, string>;
+}
+
+const inputClass =
+	"w-full py-2 px-3 bg-[#1a1a1a] border border-[#252525] rounded-lg text-sm text-[#e0e0e0] focus:outline-none focus:border-[#333]";
+const buttonClass =
+	"px-3 py-1.5 text-xs rounded-lg border border-[#333] text-[#999] hover:text-[#e0e0e0] hover:bg-[#1a1a1a] transition-all disabled:opacity-50";
+
+export default function AdminPage() {
+	const [token, setToken] = useState<string | null>(null);
+	const [tokenInput, setTokenInput] = useState("");
+	const [data, setData] = useState<SettingsResponse | null>(null);
+	const [draft, setDraft] = useState<ChatSettings | null>(null);
+	const [note, setNote] = useState("");
+	const [issues, setIssues] = useState<ValidationIssue[]>([]);
+	const [busy, setBusy] = useState(false);
+
+	const request = async <T,>(path: string, authToken: string, init?: RequestInit): Promise<T> => {
+		try {
+			return await adminRequest<T>(path, authToken, init);
+		} catch (err) {
+			if (err instanceof AdminRequestError) setIssues(err.issues);
+			throw err;
+		}
+	};
+
+	const load = async (authToken: string) => {
+		try {
+			const loaded = await request<SettingsResponse>("/api/settings", authToken);
+			setToken(authToken);
+			storeToken(authToken);
+			setData(loaded);
+			setDraft(loaded.current.settings);
+			setIssues([]);
+		} catch (err) {
+			if (err instanceof UnauthorizedError) {
+				clearStoredToken();
+				setToken(null);
+			}
+			toast.error((err as Error).message, { duration: 5000 });
+		}
+	};
+
+	useEffect(() => {
+		const stored = getStoredToken();
+		if (stored) load(stored);
+		// eslint-disable-next-line react-hooks/exhaustive-deps -- restore the saved session once on mount
+	}, []);
+
+	const save = async () => {
+		if (!token || !draft) return;
+		setBusy(true);
+		try {
+			await request("/api/settings", token, { method: "PUT", body: JSON.stringify({ settings: draft, note }) });
+			setNote("");
+			toast.success("Saved a new version");
+			await load(token);
+		} catch (err) {
+			toast.error(`Failed to save: ${(err as Error).message}`, { duration: 5000 });
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const rollback = async (version: number) => {
+		if (!token || !window.confirm(`Make version ${version} live again?`)) return;
+		setBusy(true);
+		try {
+			await request("/api/settings/rollback", token, { method: "POST", body: JSON.stringify({ version }) });
+			toast.success(`Rolled back to version ${version}`);
+			await load(token);
+		} catch (err) {
+			toast.error(`Failed to roll back: ${(err as Error).message}`, { duration: 5000 });
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const signOut = () => {
+		clearStoredToken();
+		setToken(null);
+		setData(null);
+		setDraft(null);
+	};
+
+	const update = (patch: Partial<ChatSettings>) => setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+
+	if (!token || !data || !draft) {
+		return (
+			<div className="h-screen bg-[#0c0c0c] text-[#e0e0e0] flex items-center justify-center">
+				<Toaster position="top-center" />
+				<form
+					onSubmit={(e) => {
+						e.preventDefault();
+						if (tokenInput.trim()) load(tokenInput.trim());
+					}}
+					className="w-80 space-y-4"
+				>
+					<h1 className="text-lg tracking-tight text-[#888]">support admin</h1>
+					<input
+						type="password"
+						value={tokenInput}
+						onChange={(e) => setTokenInput(e.target.value)}
+						placeholder="Admin token"
+						autoFocus
+						className={inputClass}
+					/>
+					<button type="submit" className={`${buttonClass} w-full py-2`}>
+						Sign in
+					</button>
+				</form>
+			</div>
+		);
+	}
+
+	const isDirty = JSON.stringify(draft) !== JSON.stringify(data.current.settings);
+
+	return (
+		<div className="min-h-screen bg-[#0c0c0c] text-[#e0e0e0]">
+			<Toaster
+				position="top-center"
+				toastOptions={{ style: { background: "#1a1a1a", color: "#e0e0e0", border: "1px solid #252525", fontSize: "14px" } }}
+			/>
+			<div className="max-w-5xl mx-auto p-6 flex gap-8">
+				<div className="flex-1 min-w-0 space-y-8">
+					<div className="flex justify-between items-center">
+						<h1 className="text-lg tracking-tight text-[#888]">support admin · version {data.current.version}</h1>
+						<div className="flex gap-2">
+							<Link href="/admin/quality" className={buttonClass}>
+								Answer quality
+							</Link>
+							<button onClick={signOut} className={buttonClass}>
+								Sign out
+							</button>
+						</div>
+					</div>
+
+					<section>
+						<h2 className="text-sm text-[#888] mb-3">Tones</h2>
+						<div className="space-y-3">
+							{draft.tones.map((tone, i) => (
+								<div key={i} className="p-3 bg-[#141414] border border-[#252525] rounded-lg space-y-2">
+									<div className="flex gap-2">
+										<input
+											value={tone.id}
+											onChange={(e) => update({ tones: replaceAt(draft.tones, i, { ...tone, id: e.target.value }) })}
+											placeholder="id"
+											className={`${inputClass} font-mono w-40`}
+										/>
+										<input
+											value={tone.label}
+											onChange={(e) => update({ tones: replaceAt(draft.tones, i, { ...tone, label: e.target.value }) })}
+											placeholder="Label"
+											className={inputClass}
+										/>
+										<button onClick={() => update({ tones: removeAt(draft.tones, i) })} className={buttonClass}>
+											Remove
+										</button>
+									</div>
+									<textarea
+										value={tone.prompt}
+										onChange={(e) => update({ tones: replaceAt(draft.tones, i, { ...tone, prompt: e.target.value }) })}
+										placeholder="Instruction for the model"
+										rows={2}
+										className={`${inputClass} resize-y`}
+									/>
+								</div>
+							))}
+						</div>
+						<button
+							onClick={() => update({ tones: [...draft.tones, { id: "", label: "", prompt: "" }] })}
+							className={`${buttonClass} mt-3`}
+						>
+							+ Add tone
+						</button>
+					</section>
+
+					<section>
+						<h2 className="text-sm text-[#888] mb-3">Languages</h2>
+						<div className="space-y-2">
+							{draft.languages.map((language, i) => (
+								<div key={i} className="flex gap-2 items-center">
+									<input
+										type="checkbox"
+										checked={language.enabled}
+										onChange={(e) =>
+											update({ languages: replaceAt(draft.languages, i, { ...language, enabled: e.target.checked }) })
+										}
+										title="Enabled"
+									/>
+									<input
+										value={language.code}
+										onChange={(e) => update({ languages: replaceAt(draft.languages, i, { ...language, code: e.target.value }) })}
+										placeholder="code"
+										className={`${inputClass} font-mono w-24`}
+									/>
+									<input
+										value={language.label}
+										onChange={(e) => update({ languages: replaceAt(draft.languages, i, { ...language, label: e.target.value }) })}
+										placeholder="Label shown to customers"
+										className={inputClass}
+									/>
+									<input
+										value={language.name}
+										onChange={(e) => update({ languages: replaceAt(draft.languages, i, { ...language, name: e.target.value }) })}
+										placeholder="English name"
+										className={inputClass}
+									/>
+									<button onClick={() => update({ languages: removeAt(draft.languages, i) })} className={buttonClass}>
+										Remove
+									</button>
+								</div>
+							))}
+						</div>
+						<button
+							onClick={() => update({ languages: [...draft.languages, { code: "", label: "", name: "", enabled: true }] })}
+							className={`${buttonClass} mt-3`}
+						>
+							+ Add language
+						</button>
+					</section>
+
+					<section>
+						<h2 className="text-sm text-[#888] mb-1">Prompt templates</h2>
+						<p className="text-xs text-[#555] mb-3">
+							Variables:{" "}
+							{Object.entries(data.variables).map(([name, description]) => (
+								<span key={name} className="mr-3" title={description}>
+									<code className="text-[#999]">{`{{${name}}}`}</code>
+								</span>
+							))}
+						</p>
+						<div className="space-y-3">
+							{draft.templates.map((template, i) => (
+								<div key={i} className="p-3 bg-[#141414] border border-[#252525] rounded-lg space-y-2">
+									<div className="flex gap-2 items-center">
+										<input
+											type="radio"
+											name="activeTemplate"
+											checked={draft.activeTemplate === template.id}
+											onChange={() => update({ activeTemplate: template.id })}
+											title="Use for every chat"
+										/>
+										<input
+											value={template.id}
+											onChange={(e) =>
+												update({
+													templates: replaceAt(draft.templates, i, { ...template, id: e.target.value }),
+													...(draft.activeTemplate === template.id && { activeTemplate: e.target.value }),
+												})
+											}
+											placeholder="id"
+											className={`${inputClass} font-mono w-40`}
+										/>
+										<input
+											value={template.name}
+											onChange={(e) => update({ templates: replaceAt(draft.templates, i, { ...template, name: e.target.value }) })}
+											placeholder="Name"
+											className={inputClass}
+										/>
+										<button onClick={() => update({ templates: removeAt(draft.templates, i) })} className={buttonClass}>
+											Remove
+										</button>
+									</div>
+									<textarea
+										value={template.body}
+										onChange={(e) => update({ templates: replaceAt(draft.templates, i, { ...template, body: e.target.value }) })}
+										rows={10}
+										className={`${inputClass} font-mono text-xs resize-y`}
+									/>
+								</div>
+							))}
+						</div>
+						<button
+							onClick={() => update({ templates: [...draft.templates, { id: "", name: "", body: "" }] })}
+							className={`${buttonClass} mt-3`}
+						>
+							+ Add template
+						</button>
+					</section>
+
+					{issues.length > 0 && (
+						<ul className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-xs text-red-400 space-y-1">
+							{issues.map((issue, i) => (
+								<li key={i}>
+									<span className="font-mono text-red-300">{issue.field}</span>: {issue.message}
+								</li>
+							))}
+						</ul>
+					)}
+
+					<div className="flex gap-2 sticky bottom-0 py-4 bg-[#0c0c0c] border-t border-[#252525]">
+						<input
+							value={note}
+							onChange={(e) => setNote(e.target.value)}
+							placeholder="What changed? (optional)"
+							maxLength={200}
+							className={inputClass}
+						/>
+						<button
+							onClick={() => setDraft(data.current.settings)}
+							disabled={!isDirty || busy}
+							className={buttonClass}
+						>
+							Discard
+						</button>
+						<button
+							onClick={save}
+							disabled={!isDirty || busy}
+							className="px-4 py-1.5 text-xs rounded-lg bg-[#2563eb] text-white hover:bg-[#1d4ed8] transition-all disabled:opacity-50"
+						>
+							Save
+						</button>
+					</div>
+				</div>
+
+				<aside className="w-64 flex-shrink-0">
+					<h2 className="text-sm text-[#888] mb-3">History</h2>
+					<ul className="space-y-2">
+						{[...data.versions, { version: 0, createdAt: 0, note: "Built-in defaults" }].map((version) => (
+							<li key={version.version} className="p-3 bg-[#141414] border border-[#252525] rounded-lg text-xs">
+								<div className="flex justify-between items-center mb-1">
+									<span className="text-[#bbb]">Version {version.version}</span>
+									{version.version === data.current.version ? (
+										<span className="text-[#22c55e]">live</span>
+									) : (
+										<button onClick={() => rollback(version.version)} disabled={busy} className={buttonClass}>
+											Roll back
+										</button>
+									)}
+								</div>
+								{version.createdAt > 0 && (
+									<p className="text-[#555]">{new Date(version.createdAt).toLocaleString()}</p>
+								)}
+								{version.note && <p className="text-[#888] mt-1">{version.note}</p>}
+							</li>
+						))}
+					</ul>
+				</aside>
+			</div>
+		</div>
+	);
+}
+
+function replaceAt<T>(items: T[], index: number, item: T): T[] {
+	return items.map((existing, i) => (i === index ? item : existing));
+}
+
+function removeAt<T>(items: T[], index: number): T[] {
+	return items.filter((_, i) => i !== index);
+}
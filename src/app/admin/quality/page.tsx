@@ -0,0 +1,251 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+import { adminRequest, clearStoredToken, getStoredToken, storeToken, UnauthorizedError } from "@/lib/admin-client";
+import type { Conversation } from "@/lib/conversations/types";
+import type { ConversationFeedback, FeedbackReport, FeedbackTally } from "@/lib/feedback/types";
+
+const RANGES = [7, 30, 90];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ReportResponse = FeedbackReport & { from: string; to: string };
+
+const inputClass =
+	"w-full py-2 px-3 bg-[#1a1a1a] border border-[#252525] rounded-lg text-sm text-[#e0e0e0] focus:outline-none focus:border-[#333]";
+const buttonClass =
+	"px-3 py-1.5 text-xs rounded-lg border border-[#333] text-[#999] hover:text-[#e0e0e0] hover:bg-[#1a1a1a] transition-all disabled:opacity-50";
+
+function formatRate(tally: FeedbackTally) {
+	return tally.satisfaction === null ? "–" : `${Math.round(tally.satisfaction * 100)}%`;
+}
+
+function TallyTable({ title, rows }: { title: string; rows: Record<string, FeedbackTally> }) {
+	const entries = Object.entries(rows).sort(([, a], [, b]) => b.up + b.down - (a.up + a.down));
+	return (
+		<section className="p-4 bg-[#141414] border border-[#252525] rounded-lg">
+			<h2 className="text-sm text-[#888] mb-3">{title}</h2>
+			{entries.length === 0 ? (
+				<p className="text-xs text-[#444]">No ratings yet</p>
+			) : (
+				<table className="w-full text-xs">
+					<tbody>
+						{entries.map(([name, tally]) => (
+							<tr key={name}>
+								<td className="py-1 pr-2 text-[#bbb] font-mono truncate max-w-[10rem]">{name}</td>
+								<td className="py-1 w-full">
+									<div className="h-1.5 rounded-full bg-red-500/40 overflow-hidden">
+										<div className="h-full bg-[#22c55e]" style={{ width: `${(tally.satisfaction ?? 0) * 100}%` }} />
+									</div>
+								</td>
+								<td className="py-1 pl-2 text-right text-[#bbb]">{formatRate(tally)}</td>
+								<td className="py-1 pl-2 text-right text-[#555] whitespace-nowrap">
+									{tally.up}↑ {tally.down}↓
+								</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			)}
+		</section>
+	);
+}
+
+export default function QualityPage() {
+	const [token, setToken] = useState<string | null>(null);
+	const [tokenInput, setTokenInput] = useState("");
+	const [rangeDays, setRangeDays] = useState(30);
+	const [report, setReport] = useState<ReportResponse | null>(null);
+	const [openId, setOpenId] = useState<string | null>(null);
+	const [transcripts, setTranscripts] = useState<Record<string, Conversation>>({});
+
+	const load = async (authToken: string, days: number) => {
+		const today = new Date();
+		const from = new Date(today.getTime() - (days - 1) * DAY_MS).toISOString().slice(0, 10);
+		try {
+			const loaded = await adminRequest<ReportResponse>(`/api/feedback?from=${from}&to=${today.toISOString().slice(0, 10)}`, authToken);
+			setToken(authToken);
+			storeToken(authToken);
+			setReport(loaded);
+		} catch (err) {
+			if (err instanceof UnauthorizedError) {
+				clearStoredToken();
+				setToken(null);
+			}
+			toast.error((err as Error).message, { duration: 5000 });
+		}
+	};
+
+	useEffect(() => {
+		const stored = getStoredToken();
+		if (stored) load(stored, rangeDays);
+		// eslint-disable-next-line react-hooks/exhaustive-deps -- restore the saved session once on mount
+	}, []);
+
+	const toggleTranscript = async (item: ConversationFeedback) => {
+		if (!token) return;
+		if (openId === item.conversationId) {
+			setOpenId(null);
+			return;
+		}
+		setOpenId(item.conversationId);
+		if (transcripts[item.conversationId]) return;
+		try {
+			const data = await adminRequest<{ conversation: Conversation }>(
+				`/api/feedback/conversations/${item.conversationId}?clientId=${encodeURIComponent(item.clientId)}`,
+				token
+			);
+			setTranscripts((prev) => ({ ...prev, [item.conversationId]: data.conversation }));
+		} catch (err) {
+			toast.error(`Failed to load transcript: ${(err as Error).message}`, { duration: 5000 });
+		}
+	};
+
+	const signOut = () => {
+		clearStoredToken();
+		setToken(null);
+		setReport(null);
+	};
+
+	if (!token || !report) {
+		return (
+			<div className="h-screen bg-[#0c0c0c] text-[#e0e0e0] flex items-center justify-center">
+				<Toaster position="top-center" />
+				<form
+					onSubmit={(e) => {
+						e.preventDefault();
+						if (tokenInput.trim()) load(tokenInput.trim(), rangeDays);
+					}}
+					className="w-80 space-y-4"
+				>
+					<h1 className="text-lg tracking-tight text-[#888]">answer quality</h1>
+					<input
+						type="password"
+						value={tokenInput}
+						onChange={(e) => setTokenInput(e.target.value)}
+						placeholder="Admin token"
+						autoFocus
+						className={inputClass}
+					/>
+					<button type="submit" className={`${buttonClass} w-full py-2`}>
+						Sign in
+					</button>
+				</form>
+			</div>
+		);
+	}
+
+	const busiestDay = Math.max(1, ...report.days.map((day) => day.up + day.down));
+
+	return (
+		<div className="min-h-screen bg-[#0c0c0c] text-[#e0e0e0]">
+			<Toaster
+				position="top-center"
+				toastOptions={{ style: { background: "#1a1a1a", color: "#e0e0e0", border: "1px solid #252525", fontSize: "14px" } }}
+			/>
+			<div className="max-w-5xl mx-auto p-6 space-y-6">
+				<div className="flex justify-between items-center">
+					<h1 className="text-lg tracking-tight text-[#888]">answer quality · {report.from} to {report.to}</h1>
+					<div className="flex gap-2">
+						{RANGES.map((days) => (
+							<button
+								key={days}
+								onClick={() => {
+									setRangeDays(days);
+									load(token, days);
+								}}
+								className={`${buttonClass} ${days === rangeDays ? "bg-[#1a1a1a] text-[#e0e0e0]" : ""}`}
+							>
+								{days} days
+							</button>
+						))}
+						<Link href="/admin" className={buttonClass}>
+							Settings
+						</Link>
+						<button onClick={signOut} className={buttonClass}>
+							Sign out
+						</button>
+					</div>
+				</div>
+
+				<section className="p-4 bg-[#141414] border border-[#252525] rounded-lg">
+					<div className="flex items-baseline gap-4 mb-4">
+						<span className="text-3xl text-[#e0e0e0]">{formatRate(report.total)}</span>
+						<span className="text-xs text-[#555]">
+							satisfied · {report.total.up} helpful, {report.total.down} not helpful
+						</span>
+					</div>
+					<div className="flex items-end gap-px h-24" title="Ratings per day">
+						{report.days.map((day) => (
+							<div
+								key={day.date}
+								title={`${day.date}: ${day.up} helpful, ${day.down} not helpful`}
+								className="flex-1 flex flex-col justify-end h-full"
+							>
+								<div className="bg-red-500/60" style={{ height: `${(day.down / busiestDay) * 100}%` }} />
+								<div className="bg-[#22c55e]" style={{ height: `${(day.up / busiestDay) * 100}%` }} />
+							</div>
+						))}
+					</div>
+				</section>
+
+				<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+					<TallyTable title="By model" rows={report.byModel} />
+					<TallyTable title="By tone" rows={report.byTone} />
+					<TallyTable title="By language" rows={report.byLanguage} />
+					<TallyTable title="By tool" rows={report.byTool} />
+				</div>
+
+				<section>
+					<h2 className="text-sm text-[#888] mb-3">Most downvoted conversations</h2>
+					{report.conversations.length === 0 && <p className="text-xs text-[#444]">No thumbs down in this range</p>}
+					<ul className="space-y-2">
+						{report.conversations.map((item) => (
+							<li key={item.conversationId} className="bg-[#141414] border border-[#252525] rounded-lg text-xs">
+								<button onClick={() => toggleTranscript(item)} className="w-full text-left p-3">
+									<div className="flex justify-between gap-2">
+										<span className="text-[#bbb] truncate">{item.title}</span>
+										<span className="text-[#555] flex-shrink-0">
+											{item.down}↓ {item.up}↑ · {new Date(item.lastRatedAt).toLocaleDateString()}
+										</span>
+									</div>
+									{item.comments.map((comment, i) => (
+										<p key={i} className="text-[#888] mt-1">
+											“{comment}”
+										</p>
+									))}
+								</button>
+								{openId === item.conversationId && (
+									<div className="border-t border-[#252525] p-3 space-y-2 max-h-96 overflow-y-auto">
+										{!transcripts[item.conversationId] && <p className="text-[#555]">Loading…</p>}
+										{transcripts[item.conversationId]?.messages.map((message) => (
+											<div
+												key={message.id}
+												className={`p-2 rounded-lg ${
+													message.feedback?.rating === "down"
+														? "border border-red-500/40"
+														: message.feedback?.rating === "up"
+														? "border border-[#22c55e]/40"
+														: "border border-transparent"
+												}`}
+											>
+												<p className="text-[#555] mb-1">
+													{message.role === "user" ? "Customer" : message.role === "agent" ? message.agentName : message.role}
+													{message.model && ` · ${message.model} · ${message.tone} · ${message.language}`}
+													{message.toolCalls?.length ? ` · ${message.toolCalls.map((toolCall) => toolCall.name).join(", ")}` : ""}
+												</p>
+												<p className="text-[#bbb] whitespace-pre-wrap">{message.content}</p>
+												{message.feedback?.comment && <p className="text-red-400 mt-1">“{message.feedback.comment}”</p>}
+											</div>
+										))}
+									</div>
+								)}
+							</li>
+						))}
+					</ul>
+				</section>
+			</div>
+		</div>
+	);
+}
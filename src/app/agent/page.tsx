@@ -0,0 +1,324 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+import Markdown from "@/components/Markdown";
+import ToolCallCard from "@/components/ToolCallCard";
+import ToolOutputCards from "@/components/ToolOutputCards";
+import { adminRequest, clearStoredToken, getStoredToken, storeToken, UnauthorizedError } from "@/lib/admin-client";
+import type { Conversation, StoredMessage } from "@/lib/conversations/types";
+import type { ConversationEvent, Escalation } from "@/lib/escalations/types";
+import { readSseEvents } from "@/lib/sse-client";
+
+const NAME_STORAGE_KEY = "support_agent_name";
+const QUEUE_POLL_MS = 5000;
+const EVENTS_RECONNECT_MS = 3000;
+
+const inputClass =
+	"w-full py-2 px-3 bg-[#1a1a1a] border border-[#252525] rounded-lg text-sm text-[#e0e0e0] focus:outline-none focus:border-[#333]";
+const buttonClass =
+	"px-3 py-1.5 text-xs rounded-lg border border-[#333] text-[#999] hover:text-[#e0e0e0] hover:bg-[#1a1a1a] transition-all disabled:opacity-50";
+
+function timeAgo(at: number) {
+	const minutes = Math.floor((Date.now() - at) / 60000);
+	if (minutes < 1) return "just now";
+	return minutes < 60 ? `${minutes}m ago` : `${Math.floor(minutes / 60)}h ago`;
+}
+
+export default function AgentPage() {
+	const [auth, setAuth] = useState<{ token: string; name: string } | null>(null);
+	const [tokenInput, setTokenInput] = useState("");
+	const [nameInput, setNameInput] = useState("");
+	const [queue, setQueue] = useState<Escalation[]>([]);
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+	const [escalation, setEscalation] = useState<Escalation | null>(null);
+	const [messages, setMessages] = useState<StoredMessage[]>([]);
+	const [reply, setReply] = useState("");
+	const [busy, setBusy] = useState(false);
+	const messagesEndRef = useRef<HTMLDivElement>(null);
+
+	const signIn = async (token: string, name: string) => {
+		try {
+			const data = await adminRequest<{ escalations: Escalation[] }>("/api/agent/conversations", token);
+			storeToken(token);
+			sessionStorage.setItem(NAME_STORAGE_KEY, name);
+			setQueue(data.escalations);
+			setAuth({ token, name });
+		} catch (err) {
+			if (err instanceof UnauthorizedError) clearStoredToken();
+			toast.error((err as Error).message, { duration: 5000 });
+		}
+	};
+
+	const signOut = () => {
+		clearStoredToken();
+		setAuth(null);
+		setSelectedId(null);
+	};
+
+	useEffect(() => {
+		const token = getStoredToken();
+		const name = sessionStorage.getItem(NAME_STORAGE_KEY);
+		if (name) setNameInput(name);
+		if (token && name) signIn(token, name);
+	}, []);
+
+	useEffect(() => {
+		if (!auth) return;
+		const interval = setInterval(async () => {
+			try {
+				const data = await adminRequest<{ escalations: Escalation[] }>("/api/agent/conversations", auth.token);
+				setQueue(data.escalations);
+			} catch (err) {
+				if (err instanceof UnauthorizedError) signOut();
+			}
+		}, QUEUE_POLL_MS);
+		return () => clearInterval(interval);
+	}, [auth]);
+
+	// Loads the selected transcript, then follows it live until another chat is picked.
+	useEffect(() => {
+		if (!auth || !selectedId) return;
+		const controller = new AbortController();
+
+		const addMessages = (incoming: StoredMessage[]) =>
+			setMessages((prev) => {
+				const added = incoming.filter((message) => !prev.some((m) => m.id === message.id));
+				return added.length > 0 ? [...prev, ...added] : prev;
+			});
+
+		const follow = async () => {
+			try {
+				const data = await adminRequest<{ escalation: Escalation; conversation: Conversation }>(
+					`/api/agent/conversations/${selectedId}`,
+					auth.token
+				);
+				setEscalation(data.escalation);
+				setMessages(data.conversation.messages);
+			} catch (err) {
+				toast.error(`Failed to open chat: ${(err as Error).message}`, { duration: 5000 });
+				return;
+			}
+
+			let reconnecting = false;
+			while (!controller.signal.aborted) {
+				try {
+					const response = await fetch(`/api/agent/conversations/${selectedId}/events`, {
+						headers: { Authorization: `Bearer ${auth.token}` },
+						signal: controller.signal,
+					});
+					if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+					// Messages sent while the stream was down, or to another server instance, are
+					// only in the saved conversation, so catch up from it once subscribed.
+					if (reconnecting) {
+						const data = await adminRequest<{ conversation: Conversation }>(`/api/agent/conversations/${selectedId}`, auth.token);
+						addMessages(data.conversation.messages);
+					}
+					await readSseEvents<ConversationEvent>(response, (event) => {
+						if (event.type === "escalation") {
+							setEscalation((prev) => (prev ? { ...prev, status: event.status, agentName: event.agentName } : prev));
+						} else {
+							addMessages([event.message]);
+						}
+					});
+				} catch {
+					if (controller.signal.aborted) return;
+				}
+				reconnecting = true;
+				await new Promise((resolve) => setTimeout(resolve, EVENTS_RECONNECT_MS));
+			}
+		};
+
+		follow();
+		return () => controller.abort();
+	}, [auth, selectedId]);
+
+	useEffect(() => {
+		messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+	}, [messages]);
+
+	const act = async (action: "claim" | "close") => {
+		if (!auth || !selectedId) return;
+		setBusy(true);
+		try {
+			const data = await adminRequest<{ escalation: Escalation }>(`/api/agent/conversations/${selectedId}/${action}`, auth.token, {
+				method: "POST",
+				body: JSON.stringify({ agentName: auth.name }),
+			});
+			setEscalation(data.escalation);
+			if (action === "close") {
+				setQueue((prev) => prev.filter((e) => e.conversationId !== selectedId));
+				toast.success("Handed back to the assistant");
+			}
+		} catch (err) {
+			toast.error((err as Error).message, { duration: 5000 });
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const sendReply = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!auth || !selectedId || !reply.trim()) return;
+		setBusy(true);
+		try {
+			const data = await adminRequest<{ message: StoredMessage }>(`/api/agent/conversations/${selectedId}/messages`, auth.token, {
+				method: "POST",
+				body: JSON.stringify({ agentName: auth.name, content: reply }),
+			});
+			setMessages((prev) => (prev.some((m) => m.id === data.message.id) ? prev : [...prev, data.message]));
+			setReply("");
+		} catch (err) {
+			toast.error(`Failed to send: ${(err as Error).message}`, { duration: 5000 });
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	if (!auth) {
+		return (
+			<div className="h-screen bg-[#0c0c0c] text-[#e0e0e0] flex items-center justify-center">
+				<Toaster position="top-center" />
+				<form
+					onSubmit={(e) => {
+						e.preventDefault();
+						if (tokenInput.trim() && nameInput.trim()) signIn(tokenInput.trim(), nameInput.trim());
+					}}
+					className="w-80 space-y-4"
+				>
+					<h1 className="text-lg tracking-tight text-[#888]">agent inbox</h1>
+					<input
+						value={nameInput}
+						onChange={(e) => setNameInput(e.target.value)}
+						placeholder="Your name, as customers see it"
+						maxLength={60}
+						className={inputClass}
+					/>
+					<input
+						type="password"
+						value={tokenInput}
+						onChange={(e) => setTokenInput(e.target.value)}
+						placeholder="Staff token"
+						className={inputClass}
+					/>
+					<button type="submit" className={`${buttonClass} w-full py-2`}>
+						Sign in
+					</button>
+				</form>
+			</div>
+		);
+	}
+
+	const claimedByMe = escalation?.status === "claimed" && escalation.agentName === auth.name;
+	const isOpen = escalation?.status === "queued" || escalation?.status === "claimed";
+
+	return (
+		<div className="h-screen overflow-hidden bg-[#0c0c0c] text-[#e0e0e0] flex">
+			<Toaster
+				position="top-center"
+				toastOptions={{ style: { background: "#1a1a1a", color: "#e0e0e0", border: "1px solid #252525", fontSize: "14px" } }}
+			/>
+
+			<div className="w-72 h-full border-r border-[#252525] p-4 flex-shrink-0 flex flex-col">
+				<div className="flex justify-between items-center mb-4">
+					<h1 className="text-sm text-[#888]">Queue · {auth.name}</h1>
+					<button onClick={signOut} className={buttonClass}>
+						Sign out
+					</button>
+				</div>
+				<div className="flex-1 min-h-0 overflow-y-auto space-y-2">
+					{queue.length === 0 && <p className="text-xs text-[#444]">No one is waiting</p>}
+					{queue.map((item) => (
+						<button
+							key={item.conversationId}
+							onClick={() => setSelectedId(item.conversationId)}
+							className={`w-full text-left p-3 rounded-lg border text-xs transition-all ${
+								item.conversationId === selectedId
+									? "bg-[#1a1a1a] border-[#333]"
+									: "border-[#252525] hover:bg-[#141414]"
+							}`}
+						>
+							<div className="flex justify-between gap-2 mb-1">
+								<span className="text-[#bbb] truncate">{item.title}</span>
+								<span className="text-[#555] flex-shrink-0">{timeAgo(item.requestedAt)}</span>
+							</div>
+							{item.reason && <p className="text-[#888] line-clamp-2">{item.reason}</p>}
+							<p className={item.status === "claimed" ? "text-[#22c55e] mt-1" : "text-amber-500 mt-1"}>
+								{item.status === "claimed" ? `With ${item.agentName}` : `Waiting · asked by ${item.requestedBy}`}
+							</p>
+						</button>
+					))}
+				</div>
+			</div>
+
+			<div className="flex-1 flex flex-col max-w-3xl mx-auto p-6 h-full">
+				{!selectedId || !escalation ? (
+					<p className="m-auto text-sm text-[#555]">Pick a chat from the queue</p>
+				) : (
+					<>
+						<div className="flex-shrink-0 flex justify-between items-center mb-4">
+							<h2 className="text-sm text-[#888] truncate">{escalation.title}</h2>
+							<div className="flex gap-2">
+								{isOpen && !claimedByMe && (
+									<button onClick={() => act("claim")} disabled={busy} className={buttonClass}>
+										{escalation.status === "claimed" ? `Take over from ${escalation.agentName}` : "Claim"}
+									</button>
+								)}
+								{isOpen && (
+									<button onClick={() => act("close")} disabled={busy} className={buttonClass}>
+										Hand back to assistant
+									</button>
+								)}
+							</div>
+						</div>
+
+						<div className="flex-1 min-h-0 overflow-y-auto mb-4 space-y-3">
+							{messages.map((message) => (
+								<div key={message.id} className={`flex ${message.role === "user" ? "justify-start" : "justify-end"}`}>
+									<div
+										className={`max-w-[80%] px-4 py-3 rounded-xl text-sm ${
+											message.role === "agent"
+												? "bg-[#2563eb] text-white"
+												: message.role === "error"
+												? "bg-red-500/10 border border-red-500/30 text-red-400"
+												: "bg-[#1a1a1a] border border-[#252525]"
+										}`}
+									>
+										<p className="text-xs opacity-60 mb-1">
+											{message.role === "user" ? "Customer" : message.role === "agent" ? message.agentName : message.role === "assistant" ? "Assistant" : "Error"}
+										</p>
+										{message.toolCalls?.map((toolCall) => <ToolCallCard key={toolCall.id} toolCall={toolCall} />)}
+										{message.toolCalls?.map(
+											(toolCall) => toolCall.output && <ToolOutputCards key={toolCall.id} output={toolCall.output} />
+										)}
+										{message.role === "assistant" ? (
+											<Markdown content={message.content} />
+										) : (
+											<p className="whitespace-pre-wrap leading-relaxed">{message.content}</p>
+										)}
+									</div>
+								</div>
+							))}
+							<div ref={messagesEndRef} />
+						</div>
+
+						<form onSubmit={sendReply} className="flex-shrink-0 flex gap-2">
+							<input
+								value={reply}
+								onChange={(e) => setReply(e.target.value)}
+								placeholder={
+									!isOpen ? "This chat was handed back to the assistant" : claimedByMe ? "Reply to the customer" : "Claim the chat to reply"
+								}
+								disabled={!claimedByMe || busy}
+								className={inputClass}
+							/>
+							<button type="submit" disabled={!claimedByMe || busy || !reply.trim()} className={buttonClass}>
+								Send
+							</button>
+						</form>
+					</>
+				)}
+			</div>
+		</div>
+	);
+}
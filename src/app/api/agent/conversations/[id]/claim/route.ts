@@ -0,0 +1,27 @@
+import { isAdminRequest } from "@/lib/admin-auth";
+import { claimEscalation, parseAgentName } from "@/lib/escalations";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Body: `{ agentName }`. Takes the chat, or takes it over from another agent. Staff only. */
+export async function POST(request: Request, { params }: RouteContext) {
+  if (!isAdminRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = ((await request.json().catch(() => null)) || {}) as { agentName?: unknown };
+  const agentName = parseAgentName(body.agentName);
+  if (!agentName) {
+    return Response.json({ error: "agentName must be a non-empty string of at most 60 characters" }, { status: 400 });
+  }
+
+  const escalation = await claimEscalation((await params).id, agentName);
+  if (!escalation) {
+    return Response.json({ error: "Escalation not found or already closed" }, { status: 404 });
+  }
+  return Response.json({ escalation });
+}
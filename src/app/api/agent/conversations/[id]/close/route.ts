@@ -0,0 +1,21 @@
+import { isAdminRequest } from "@/lib/admin-auth";
+import { closeEscalation } from "@/lib/escalations";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Ends the handoff; the assistant answers the customer's next message again. Staff only. */
+export async function POST(request: Request, { params }: RouteContext) {
+  if (!isAdminRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const escalation = await closeEscalation((await params).id);
+  if (!escalation) {
+    return Response.json({ error: "Escalation not found or already closed" }, { status: 404 });
+  }
+  return Response.json({ escalation });
+}
@@ -0,0 +1,21 @@
+import { isAdminRequest } from "@/lib/admin-auth";
+import { conversationEventStream, getEscalationStore } from "@/lib/escalations";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Live customer messages and escalation changes for the agent console. Staff only. */
+export async function GET(request: Request, { params }: RouteContext) {
+  if (!isAdminRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!(await getEscalationStore().get(id))) {
+    return Response.json({ error: "Escalation not found" }, { status: 404 });
+  }
+  return conversationEventStream(id, request.signal);
+}
@@ -0,0 +1,50 @@
+import { isAdminRequest } from "@/lib/admin-auth";
+import { CHAT_LIMITS } from "@/lib/chat-contract";
+import { getConversationStore } from "@/lib/conversations";
+import { getEscalationStore, isOpen, parseAgentName, publish } from "@/lib/escalations";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Body: `{ agentName, content }`. Adds an agent reply and pushes it to the customer. Staff only. */
+export async function POST(request: Request, { params }: RouteContext) {
+  if (!isAdminRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { agentName?: unknown; content?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON in request body" }, { status: 400 });
+  }
+
+  const agentName = parseAgentName(body.agentName);
+  const content = typeof body.content === "string" ? body.content.trim() : "";
+  if (!agentName || !content || content.length > CHAT_LIMITS.maxMessageLength) {
+    return Response.json(
+      { error: `agentName and content (at most ${CHAT_LIMITS.maxMessageLength} characters) are required` },
+      { status: 400 }
+    );
+  }
+
+  const { id } = await params;
+  const escalation = await getEscalationStore().get(id);
+  if (!isOpen(escalation)) {
+    return Response.json({ error: "Escalation not found or already closed" }, { status: 404 });
+  }
+
+  const conversation = await getConversationStore().append(escalation.clientId, id, [
+    { role: "agent", content, agentName },
+  ]);
+  if (!conversation) {
+    return Response.json({ error: "Conversation not found" }, { status: 404 });
+  }
+
+  const message = conversation.messages[conversation.messages.length - 1];
+  publish(id, { type: "agent_message", message });
+  return Response.json({ message }, { status: 201 });
+}
@@ -0,0 +1,24 @@
+import { isAdminRequest } from "@/lib/admin-auth";
+import { getConversationStore } from "@/lib/conversations";
+import { getEscalationStore } from "@/lib/escalations";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** An escalated conversation with its full transcript. Staff only. */
+export async function GET(request: Request, { params }: RouteContext) {
+  if (!isAdminRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const escalation = await getEscalationStore().get(id);
+  const conversation = escalation && (await getConversationStore().get(escalation.clientId, id));
+  if (!escalation || !conversation) {
+    return Response.json({ error: "Escalation not found" }, { status: 404 });
+  }
+  return Response.json({ escalation, conversation });
+}
@@ -0,0 +1,12 @@
+import { isAdminRequest } from "@/lib/admin-auth";
+import { getEscalationStore } from "@/lib/escalations";
+
+export const runtime = "nodejs";
+
+/** The agent queue: queued and claimed escalations, oldest first. Staff only. */
+export async function GET(request: Request) {
+  if (!isAdminRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return Response.json({ escalations: await getEscalationStore().listOpen() });
+}
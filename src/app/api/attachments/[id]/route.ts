@@ -0,0 +1,28 @@
+import { getAttachmentStore } from "@/lib/attachments";
+import { getClientId } from "@/lib/client-id";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** The uploaded file, for thumbnails and downloads. Only its uploader can fetch it. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const attachment = await getAttachmentStore().get(await getClientId(), id);
+  if (!attachment) {
+    return Response.json({ error: "Attachment not found" }, { status: 404 });
+  }
+
+  const { ref, data } = attachment;
+  const isImage = ref.mimeType.startsWith("image/");
+  return new Response(Buffer.from(data, "base64"), {
+    headers: {
+      "Content-Type": ref.mimeType,
+      "Content-Disposition": `${isImage ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(ref.name)}`,
+      "X-Content-Type-Options": "nosniff",
+      "Cache-Control": "private, max-age=86400",
+    },
+  });
+}
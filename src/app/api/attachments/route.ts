@@ -0,0 +1,94 @@
+import { extractDocumentText, getAttachmentStore } from "@/lib/attachments";
+import { ATTACHMENT_LIMITS, checkAttachment } from "@/lib/chat-contract";
+import { getClientId } from "@/lib/client-id";
+import type { AttachmentRef } from "@/lib/conversations";
+import { logger } from "@/lib/logger";
+import { checkRateLimit, getRateLimitKeys, rateLimitResponse } from "@/lib/rate-limit";
+
+export const runtime = "nodejs";
+
+// The largest file allowed, plus room for the multipart framing around it.
+const MAX_BODY_BYTES = Math.max(ATTACHMENT_LIMITS.maxImageBytes, ATTACHMENT_LIMITS.maxDocumentBytes) + 64 * 1024;
+
+class BodyTooLargeError extends Error {}
+
+/** The request body, read no further than `MAX_BODY_BYTES` so an oversized upload never sits in memory. */
+async function readBody(request: Request): Promise<Uint8Array<ArrayBuffer>> {
+  if (Number(request.headers.get("Content-Length")) > MAX_BODY_BYTES) throw new BodyTooLargeError();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = request.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_BODY_BYTES) {
+      await reader.cancel().catch(() => {});
+      throw new BodyTooLargeError();
+    }
+    chunks.push(value);
+  }
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+/**
+ * Uploads one file (multipart field `file`) for the client's next message.
+ * PDFs are read here so the chat route only has to pass their text along.
+ */
+export async function POST(request: Request) {
+  const clientId = await getClientId();
+  // Uploads spend from the same per-minute budget as messages.
+  const rateLimit = await checkRateLimit(getRateLimitKeys(request, clientId));
+  if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+  let body: Uint8Array<ArrayBuffer>;
+  try {
+    body = await readBody(request);
+  } catch (error) {
+    if (!(error instanceof BodyTooLargeError)) throw error;
+    return Response.json({ error: `Upload cannot exceed ${MAX_BODY_BYTES} bytes` }, { status: 413 });
+  }
+
+  let file: FormDataEntryValue | null;
+  try {
+    const contentType = request.headers.get("Content-Type") ?? "";
+    file = (await new Response(body, { headers: { "Content-Type": contentType } }).formData()).get("file");
+  } catch {
+    return Response.json({ error: "Expected multipart/form-data with a file field" }, { status: 400 });
+  }
+  if (!(file instanceof File)) {
+    return Response.json({ error: "Expected multipart/form-data with a file field" }, { status: 400 });
+  }
+
+  const problem = checkAttachment(file);
+  if (problem) {
+    return Response.json({ error: problem }, { status: 400 });
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const ref: AttachmentRef = {
+    id: crypto.randomUUID(),
+    name: file.name || "attachment",
+    mimeType: file.type,
+    size: file.size,
+  };
+
+  if (ATTACHMENT_LIMITS.documentTypes.includes(file.type)) {
+    try {
+      // unpdf takes ownership of the buffer it is given, so it gets a copy.
+      ref.text = await extractDocumentText(bytes.slice());
+    } catch (error) {
+      logger.error("Failed to read PDF", { route: "/api/attachments", error });
+      return Response.json({ error: "Could not read this PDF" }, { status: 400 });
+    }
+  }
+
+  await getAttachmentStore().put(clientId, { ref, data: Buffer.from(bytes).toString("base64") });
+  return Response.json({ attachment: ref }, { status: 201 });
+}
@@ -0,0 +1,27 @@
+import { resolveApproval } from "@/lib/approvals";
+import { getClientId } from "@/lib/client-id";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: { approved?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON in request body" }, { status: 400 });
+  }
+  if (typeof body.approved !== "boolean") {
+    return Response.json({ error: "approved must be a boolean" }, { status: 400 });
+  }
+
+  if (!resolveApproval(id, await getClientId(), body.approved)) {
+    return Response.json({ error: "No pending approval with this ID" }, { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+}
@@ -1,103 +1,227 @@
-import OpenAI from "openai";
-import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import {
+  getMcpConnection,
+  getMcpServers,
+  namespaceToolName,
+  parseNamespacedToolName,
+  requiresConfirmation,
+  type McpServerConfig,
+  type McpTool,
+  type McpToolResult,
+} from "@/lib/mcp";
+import { waitForApproval } from "@/lib/approvals";
+import { getAttachmentStore, type StoredAttachment } from "@/lib/attachments";
+import { BrandConfigError, resolveBrand, type BrandProfile } from "@/lib/brands";
+import { getChatSettings, renderPromptTemplate } from "@/lib/chat-settings";
+import { CHAT_LIMITS, ChatRequestSchema, STREAM_ID_HEADER, toValidationIssues } from "@/lib/chat-contract";
+import { getClientId } from "@/lib/client-id";
+import { checkRateLimit, getRateLimitKeys, rateLimitResponse, recordTokenUsage } from "@/lib/rate-limit";
+import {
+  getConversationStore,
+  type HistorySummary,
+  type StoredMessage,
+  type ToolCallRecord,
+} from "@/lib/conversations";
+import { createChatStream } from "@/lib/chat-streams";
+import { fitHistoryToBudget } from "@/lib/context-window";
+import { describeHostContext } from "@/lib/embed";
+import { processToolResult } from "@/lib/tool-output";
+import { getEscalationStore, isOpen, requestEscalation, toEscalationState } from "@/lib/escalations";
+import {
+  getFallbackModels,
+  ProviderConfigError,
+  resolveModel,
+  type ChatMessage, type LlmProvider, type ToolCall, type ToolDefinition } from "@/lib/llm";
+import { logger, REQUEST_ID_HEADER, type Logger } from "@/lib/logger";
+import {
+  backoffDelay,
+  CircuitOpenError,
+  getCircuitBreaker,
+  isTransientError,
+  readIntEnv,
+  retry,
+  sleep,
+  withIdleTimeout,
+  withTimeout,
+} from "@/lib/resilience";
+import { getUsageStore, usageDate, UsageLedger } from "@/lib/usage";
 
 export const runtime = "nodejs";
 
+const DEFAULT_MAX_TOOL_ROUNDS = 5;
+const TOOL_RESULT_PREVIEW_LENGTH = 2000;
+const DEFAULT_APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_MCP_TIMEOUT_MS = 15_000;
+const DEFAULT_MCP_TOOL_TIMEOUT_MS = 30_000;
+const DEFAULT_LLM_IDLE_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 2;
+
+// Built-in tool that queues the conversation for a human agent. MCP tools are
+// always namespaced with "__", so the name cannot collide with them.
+const HANDOFF_TOOL: ToolDefinition = {
+  name: "handoff_to_human",
+  description:
+    "Hand the conversation to a human support agent. Use when the customer asks for a person or you cannot resolve their issue with the tools available.",
+  parameters: {
+    type: "object",
+    properties: { reason: { type: "string", description: "Short summary of the issue for the agent" } },
+    required: ["reason"],
+  },
+};
+
 interface Message {
-  role: "user" | "assistant" | "system";
+  role: "user" | "assistant";
   content: string;
 }
 
-interface ChatRequest {
-  messages: Message[];
-  model: string;
-  tone: string;
-  language: string;
-}
-
-interface McpToolResult {
-  content?: Array<{ type?: string; text?: string }>;
-}
-
 interface McpError {
   source: "mcp";
+  server: string;
   operation: string;
   message: string;
   details?: string;
 }
 
-async function getMcpTools(mcpUrl: string): Promise<{ tools: Array<{ name: string; description?: string; inputSchema?: Record<string, unknown> }>; error?: McpError }> {
-  try {
-    const transport = new StreamableHTTPClientTransport(new URL(mcpUrl));
-    const client = new Client({ name: "support-chat", version: "1.0.0" });
-    await client.connect(transport);
-    const { tools } = await client.listTools();
-    await client.close();
-    return { tools: tools || [] };
-  } catch (error) {
-    const err = error as Error;
-    console.error("[MCP] Failed to get tools:", err.message);
+interface McpServerTools {
+  server: McpServerConfig;
+  tools: McpTool[];
+}
+
+async function getMcpTools(
+  servers: McpServerConfig[],
+  log: Logger
+): Promise<{ catalog: McpServerTools[]; errors: McpError[] }> {
+  const results = await Promise.all(
+    servers.map(async (server): Promise<McpServerTools | { error: McpError }> => {
+      const connection = getMcpConnection(server);
+      const timeoutMs = readIntEnv("MCP_TIMEOUT_MS", DEFAULT_MCP_TIMEOUT_MS);
+      let span = log.startSpan("mcp.connect", { server: server.name });
+      try {
+        const tools = await getCircuitBreaker(`mcp:${server.name}`).run(async () => {
+          const opened = await withTimeout(() => connection.ensureConnected(), timeoutMs);
+          span.end({ reused: !opened });
+          span = log.startSpan("mcp.list_tools", { server: server.name });
+          return withTimeout(() => connection.listTools(), timeoutMs);
+        }, isTransientError);
+        span.end({ tools: tools.length });
+        return { server, tools };
+      } catch (error) {
+        const err = error as Error;
+        span.end({ error: err });
+        return {
+          error: {
+            source: "mcp",
+            server: server.name,
+            operation: "listTools",
+            message:
+              error instanceof CircuitOpenError ? "Skipped after repeated failures" : "Failed to connect to MCP server",
+            details: err.message,
+          },
+        };
+      }
+    })
+  );
+
+  const catalog: McpServerTools[] = [];
+  const errors: McpError[] = [];
+  for (const result of results) {
+    if ("error" in result) errors.push(result.error);
+    else catalog.push(result);
+  }
+  return { catalog, errors };
+}
+
+/**
+ * Calls the tool with a timeout, retrying transient failures unless the tool
+ * has side effects (a retry could run them twice), behind the server's
+ * circuit breaker. Failures come back as error results for the model.
+ */
+async function callMcpTool(
+  servers: McpServerConfig[],
+  toolName: string,
+  args: Record<string, unknown>,
+  options: { log: Logger; signal?: AbortSignal; sideEffects: boolean }
+): Promise<McpToolResult> {
+  const { log, signal } = options;
+  const target = parseNamespacedToolName(toolName);
+  const server = target && servers.find((s) => s.name === target.serverName);
+  if (!target || !server) {
     return {
-      tools: [],
-      error: {
-        source: "mcp",
-        operation: "listTools",
-        message: "Failed to connect to MCP server",
-        details: err.message,
-      },
+      content: [{ type: "text", text: `MCP tool error (${toolName}): no MCP server provides this tool` }],
+      isError: true,
     };
   }
-}
 
-async function callMcpTool(mcpUrl: string, toolName: string, args: Record<string, unknown>): Promise<McpToolResult> {
+  const timeoutMs = readIntEnv("MCP_TOOL_TIMEOUT_MS", DEFAULT_MCP_TOOL_TIMEOUT_MS);
   try {
-    const transport = new StreamableHTTPClientTransport(new URL(mcpUrl));
-    const client = new Client({ name: "support-chat", version: "1.0.0" });
-    await client.connect(transport);
-    const result = await client.callTool({ name: toolName, arguments: args });
-    await client.close();
-    return result as McpToolResult;
+    return await getCircuitBreaker(`mcp:${server.name}`).run(
+      () =>
+        retry(
+          () =>
+            withTimeout(
+              (timeoutSignal) =>
+                getMcpConnection(server).callTool(target.toolName, args, {
+                  signal: timeoutSignal,
+                  replay: !options.sideEffects,
+                }),
+              timeoutMs,
+              signal
+            ),
+          {
+            retries: options.sideEffects ? 0 : readIntEnv("MCP_TOOL_MAX_RETRIES", DEFAULT_MAX_RETRIES),
+            isRetryable: isTransientError,
+            signal,
+            onRetry: (error, attempt, delayMs) =>
+              log.warn("Retrying MCP tool call", { tool: toolName, attempt, delayMs: Math.round(delayMs), error }),
+          }
+        ),
+      isTransientError
+    );
   } catch (error) {
+    if (signal?.aborted) throw error;
     const err = error as Error;
-    console.error(`[MCP] Failed to call tool ${toolName}:`, err.message);
-    return { content: [{ type: "text", text: `MCP tool error (${toolName}): ${err.message}` }] };
+    log.error("MCP tool call failed", { tool: toolName, error: err });
+    return { content: [{ type: "text", text: `MCP tool error (${toolName}): ${err.message}` }], isError: true };
   }
 }
 
-function convertMcpToolsToOpenAI(mcpTools: Array<{ name: string; description?: string; inputSchema?: Record<string, unknown> }>) {
-  return mcpTools.map((tool) => ({
-    type: "function" as const,
-    function: {
-      name: tool.name,
+function convertMcpToolsToDefinitions(catalog: McpServerTools[]): ToolDefinition[] {
+  return catalog.flatMap(({ server, tools }) =>
+    tools.map((tool) => ({
+      name: namespaceToolName(server.name, tool.name),
       description: tool.description || "",
       parameters: tool.inputSchema || { type: "object", properties: {} },
-    },
-  }));
+    }))
+  );
 }
 
-function getTonePrompt(tone: string): string {
-  const tones: Record<string, string> = {
-    professional: "Respond in a professional, formal manner. Be courteous and efficient.",
-    friendly: "Be warm, friendly, and conversational. Use a casual but helpful tone.",
-    concise: "Keep responses brief and to the point. Avoid unnecessary elaboration.",
-  };
-  return tones[tone] || tones.professional;
+// Attachments reach the model as text: document contents inline and images as
+// a note. The newest message's images are added as image parts separately.
+function withAttachmentText(message: StoredMessage): string {
+  const notes = (message.attachments || []).map((attachment) =>
+    attachment.text !== undefined
+      ? `[Attached document: ${attachment.name}]\n${attachment.text || "(no text could be extracted)"}`
+      : `[Attached image: ${attachment.name}]`
+  );
+  return [message.content, ...notes].filter(Boolean).join("\n\n");
 }
 
-function getLanguageName(code: string): string {
-  const languages: Record<string, string> = {
-    en: "English",
-    es: "Spanish",
-    fr: "French",
-    de: "German",
-    pt: "Portuguese",
-    zh: "Chinese",
-    ja: "Japanese",
-    ko: "Korean",
-    ar: "Arabic",
-  };
-  return languages[code] || "English";
+function getApprovalTimeoutMs(): number {
+  const parsed = parseInt(process.env.TOOL_APPROVAL_TIMEOUT_MS || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_APPROVAL_TIMEOUT_MS;
+}
+
+function getMaxToolRounds(): number {
+  const parsed = parseInt(process.env.MAX_TOOL_ROUNDS || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_TOOL_ROUNDS;
+}
+
+// Rough 4-characters-per-token estimate, used for rate limits when the provider reports no usage.
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}… (${text.length - maxLength} more characters)` : text;
 }
 
 function formatError(source: string, message: string, details?: string): string {
@@ -106,29 +230,54 @@ function formatError(source: string, message: string, details?: string): string
   return formatted;
 }
 
+/**
+ * Each chat turn gets a request ID, returned in the X-Request-Id header and the
+ * final `done` or `error` event and added to every log line, so a customer's
+ * report can be traced to the server logs.
+ */
 export async function POST(request: Request) {
-  const apiKey = process.env.OPENAI_API_KEY;
-  const mcpUrl = process.env.MCP_SERVER_URL;
-
-  const encoder = new TextEncoder();
+  const requestId = crypto.randomUUID();
+  const log = logger.child({ requestId, route: "/api/chat" });
+  const response = await handleChat(request, requestId, log);
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
 
-  if (!apiKey) {
+async function handleChat(request: Request, requestId: string, log: Logger): Promise<Response> {
+  const chatSpan = log.startSpan("chat");
+  let mcpServers: McpServerConfig[];
+  try {
+    mcpServers = getMcpServers();
+  } catch (error) {
     return new Response(
-      JSON.stringify({ error: "OPENAI_API_KEY environment variable is not set" }),
+      JSON.stringify({ error: (error as Error).message }),
       { status: 500, headers: { "Content-Type": "application/json" } }
     );
   }
 
-  if (!mcpUrl) {
+  if (mcpServers.length === 0) {
     return new Response(
-      JSON.stringify({ error: "MCP_SERVER_URL environment variable is not set" }),
+      JSON.stringify({ error: "MCP_SERVERS or MCP_SERVER_URL environment variable is not set" }),
       { status: 500, headers: { "Content-Type": "application/json" } }
     );
   }
 
-  let requestBody: ChatRequest;
+  const clientId = await getClientId();
+  const rateLimitKeys = getRateLimitKeys(request, clientId);
+  const rateLimit = await checkRateLimit(rateLimitKeys);
+  if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+  const rawBody = await request.text();
+  if (new TextEncoder().encode(rawBody).length > CHAT_LIMITS.maxBodyBytes) {
+    return new Response(
+      JSON.stringify({ error: `Request body cannot exceed ${CHAT_LIMITS.maxBodyBytes} bytes` }),
+      { status: 413, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  let json: unknown;
   try {
-    requestBody = await request.json();
+    json = JSON.parse(rawBody);
   } catch {
     return new Response(
       JSON.stringify({ error: "Invalid JSON in request body" }),
@@ -136,189 +285,520 @@ export async function POST(request: Request) {
     );
   }
 
-  const { messages, model, tone, language } = requestBody;
-  const openai = new OpenAI({ apiKey });
-
-  const stream = new ReadableStream({
-    async start(controller) {
-      const send = (data: Record<string, unknown>) => {
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
-      };
-
-      try {
-        send({ type: "status", content: "Connecting to MCP server..." });
-        const { tools: mcpTools, error: mcpError } = await getMcpTools(mcpUrl);
+  const parsed = ChatRequestSchema.safeParse(json);
+  if (!parsed.success) {
+    return new Response(
+      JSON.stringify({ error: "Invalid chat request", issues: toValidationIssues(parsed.error) }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
 
-        if (mcpError) {
-          send({ type: "warning", content: `MCP: ${mcpError.message} (${mcpError.details}). Proceeding without tools.` });
-        } else if (mcpTools.length === 0) {
-          send({ type: "warning", content: "MCP: No tools available from server." });
-        } else {
-          send({ type: "status", content: `MCP: Connected (${mcpTools.length} tools available)` });
-        }
+  const requestBody = parsed.data;
+  const { conversationId, model } = requestBody;
 
-        const openaiTools = convertMcpToolsToOpenAI(mcpTools);
+  let brand: BrandProfile | null;
+  try {
+    brand = resolveBrand({ id: requestBody.brand, host: request.headers.get("host") });
+  } catch (error) {
+    if (!(error instanceof BrandConfigError)) throw error;
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+  if (!brand) {
+    return new Response(
+      JSON.stringify({ error: "Invalid chat request", issues: [{ field: "brand", message: "Unknown brand" }] }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
 
-        const languageName = getLanguageName(language);
-        const systemPrompt = `You are a helpful customer support agent for TechGear, a company that sells computer products including monitors, printers, keyboards, mice, and other peripherals.
+  const chatSettings = await getChatSettings();
+  const tone = chatSettings.tones.find((t) => t.id === (requestBody.tone ?? brand.defaultTone));
+  const language = chatSettings.languages.find(
+    (l) => l.enabled && l.code === (requestBody.language ?? brand.defaultLanguage)
+  );
+  const template =
+    chatSettings.templates.find((t) => t.id === chatSettings.activeTemplate) ?? chatSettings.templates[0];
+  if (!tone || !language) {
+    return new Response(
+      JSON.stringify({
+        error: "Invalid chat request",
+        issues: [
+          ...(tone ? [] : [{ field: "tone", message: `Must be one of: ${chatSettings.tones.map((t) => t.id).join(", ")}` }]),
+          ...(language ? [] : [{ field: "language", message: "Must be an enabled language" }]),
+        ],
+      }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+  const brandServers = brand.mcpServers;
+  if (brandServers) {
+    const unknown = brandServers.filter((name) => !mcpServers.some((server) => server.name === name));
+    if (unknown.length > 0) {
+      return new Response(
+        JSON.stringify({ error: `Brand "${brand.id}" uses unknown MCP servers: ${unknown.join(", ")}` }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+    mcpServers = mcpServers.filter((server) => brandServers.includes(server.name));
+  }
+  let messages: Message[] = requestBody.messages ?? [];
+  let historySummary: HistorySummary | undefined;
+  let conversationTitle = "";
+
+  if (conversationId) {
+    const escalation = await getEscalationStore().get(conversationId);
+    if (isOpen(escalation)) {
+      return new Response(
+        JSON.stringify({ error: "A human agent is handling this conversation", escalation: toEscalationState(escalation) }),
+        { status: 409, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  }
 
-${getTonePrompt(tone)}
+  let images: StoredAttachment[] = [];
 
-IMPORTANT: Always respond in ${languageName}. The customer prefers ${languageName}.
+  if (conversationId && requestBody.message) {
+    const parts = requestBody.message;
+    const attachmentStore = getAttachmentStore();
+    const attachments = await Promise.all(
+      parts.flatMap((part) => (part.type === "attachment" ? [attachmentStore.get(clientId, part.attachmentId)] : []))
+    );
+    if (attachments.some((attachment) => !attachment)) {
+      return new Response(
+        JSON.stringify({ error: "Invalid chat request", issues: [{ field: "message", message: "Unknown attachment" }] }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+    const found = attachments as StoredAttachment[];
+    images = found.filter((attachment) => attachment.ref.mimeType.startsWith("image/"));
+
+    const stored = await getConversationStore().append(clientId, conversationId, [
+      {
+        role: "user",
+        content: parts.flatMap((part) => (part.type === "text" ? [part.text] : [])).join("\n\n"),
+        ...(found.length > 0 && { attachments: found.map((attachment) => attachment.ref) }),
+      },
+    ]);
+    if (!stored) {
+      return new Response(
+        JSON.stringify({ error: "Conversation not found" }),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+    if (found.length > 0) await attachmentStore.keep(clientId, found);
+    historySummary = stored.summary;
+    conversationTitle = stored.title;
+    // Human agent replies read to the model as its own earlier turns. Imported
+    // replies were not written here, so they are quoted on the customer's side.
+    messages = stored.messages
+      .filter((m) => m.role !== "error")
+      .map((m) =>
+        m.imported
+          ? { role: "user", content: `[Reply quoted from an imported transcript]\n${withAttachmentText(m)}` }
+          : { role: m.role === "user" ? "user" : "assistant", content: withAttachmentText(m) }
+      );
+  }
 
-Your job is to help customers with:
-- Product information and recommendations
-- Order status and tracking
-- Returns and refunds
-- Technical support
-- General inquiries
+  let provider: LlmProvider;
+  let upstreamModel: string;
+  let vision: boolean;
+  let fallbackModels: string[];
+  try {
+    ({ provider, upstreamModel, vision } = resolveModel(model));
+    fallbackModels = getFallbackModels(model);
+  } catch (error) {
+    if (!(error instanceof ProviderConfigError)) throw error;
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
 
-Use the available tools to look up information when needed. Always be helpful and provide accurate information.`;
+  // Stopped when the customer cancels the reply, or when nobody resumes the
+  // stream after a dropped connection, so upstream model and MCP requests
+  // do not run to completion for no one.
+  const abortController = new AbortController();
+  const { signal } = abortController;
+  const chatStream = createChatStream(clientId, () => abortController.abort(), request.headers.get(STREAM_ID_HEADER));
+  // Stopped before it was answered: a stop request that came first found no stream to cancel.
+  if (request.signal.aborted) abortController.abort();
+
+  const generate = async () => {
+    const replyId = crypto.randomUUID();
+    // The model answering the turn, which changes when one in the fallback chain takes over.
+    let activeModel: string = model;
+    let reply = "";
+    let replyError: string | null = null;
+    let estimatedTokens = 0;
+    const usage = new UsageLedger();
+    const toolCallRecords: ToolCallRecord[] = [];
+
+    const send = (data: Record<string, unknown>) => {
+      if (signal.aborted) return;
+      if (data.type === "content") reply += data.content;
+      if (data.type === "error") replyError = String(data.content);
+      chatStream.send(data);
+    };
 
-        const allMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
-          { role: "system", content: systemPrompt },
-          ...messages.map((m) => ({ role: m.role, content: m.content })),
-        ];
+    const finish = async () => {
+      const interrupted = signal.aborted;
+      for (const record of toolCallRecords) {
+        if (record.status === "running") Object.assign(record, { status: "error", error: "Interrupted" });
+        if (record.approval === "pending") record.approval = "expired";
+      }
+      if (conversationId && (replyError || reply || toolCallRecords.length > 0)) {
+        try {
+          await getConversationStore().append(clientId, conversationId, [
+            {
+              id: replyId,
+              ...(replyError && !interrupted
+                ? { role: "error", content: replyError }
+                : {
+                    role: "assistant",
+                    content: reply,
+                    model: activeModel,
+                    tone: tone.id,
+                    language: language.code,
+                    ...(interrupted && { interrupted: true }),
+                  }),
+              ...(toolCallRecords.length > 0 && { toolCalls: toolCallRecords }),
+            },
+          ]);
+        } catch (error) {
+          log.error("Failed to save reply", { conversationId, error });
+        }
+      }
+      const usageTotal = usage.total;
+      try {
+        await recordTokenUsage(rateLimitKeys, usageTotal.requests > 0 ? usageTotal.totalTokens : estimatedTokens);
+      } catch (error) {
+        log.error("Failed to record token usage", { error });
+      }
+      if (usageTotal.requests > 0) {
+        try {
+          await getUsageStore().record(usageDate(), conversationId, usage.byModel);
+        } catch (error) {
+          log.error("Failed to record usage", { error });
+        }
+      }
+      chatSpan.end({
+        conversationId,
+        model: activeModel,
+        outcome: interrupted ? "interrupted" : replyError ? "error" : "ok",
+        toolCalls: toolCallRecords.length,
+        totalTokens: usageTotal.totalTokens,
+      });
+      chatStream.end();
+    };
 
-        send({ type: "status", content: "Connecting to OpenAI..." });
+    try {
+      // Lets the client address the saved reply, e.g. to rate it, without reloading the conversation.
+      if (conversationId) send({ type: "reply", id: replyId });
+      send({ type: "status", content: "Connecting to MCP server..." });
+      const { catalog, errors: mcpErrors } = await getMcpTools(mcpServers, log);
+
+      for (const mcpError of mcpErrors) {
+        send({
+          type: "warning",
+          server: mcpError.server,
+          content: `MCP (${mcpError.server}): ${mcpError.message} (${mcpError.details}). Proceeding without its tools.`,
+        });
+      }
 
-        let response;
-        try {
-          response = await openai.chat.completions.create({
-            model: model || "gpt-4o-mini",
-            messages: allMessages,
-            tools: openaiTools.length > 0 ? openaiTools : undefined,
-            stream: true,
-          });
-        } catch (openaiError) {
-          const err = openaiError as Error & { status?: number; code?: string };
-          let errorMsg = "OpenAI API error";
-
-          if (err.status === 401 || err.message?.includes("401") || err.message?.includes("Unauthorized")) {
-            errorMsg = "OpenAI: Invalid API key. Please check OPENAI_API_KEY.";
-          } else if (err.status === 429 || err.message?.includes("429")) {
-            errorMsg = "OpenAI: Rate limit exceeded. Please try again later.";
-          } else if (err.status === 500 || err.message?.includes("500")) {
-            errorMsg = "OpenAI: Server error. Please try again.";
-          } else if (err.code === "ENOTFOUND" || err.message?.includes("ENOTFOUND")) {
-            errorMsg = "OpenAI: Network error - cannot reach api.openai.com";
-          } else {
-            errorMsg = `OpenAI: ${err.message || "Unknown error"}`;
+      const mcpTools = convertMcpToolsToDefinitions(catalog);
+      const confirmationRequired = new Set(
+        catalog.flatMap(({ server, tools }) =>
+          tools.filter((tool) => requiresConfirmation(server, tool)).map((tool) => namespaceToolName(server.name, tool.name))
+        )
+      );
+
+      if (catalog.length > 0 && mcpTools.length === 0) {
+        send({ type: "warning", content: "MCP: No tools available from server." });
+      } else if (mcpTools.length > 0) {
+        send({
+          type: "status",
+          content: `MCP: Connected to ${catalog.length} of ${mcpServers.length} servers (${mcpTools.length} tools available)`,
+        });
+      }
+      const tools = conversationId ? [...mcpTools, HANDOFF_TOOL] : mcpTools;
+
+      const hostContext = describeHostContext(requestBody.context);
+      const systemPrompt = [
+        renderPromptTemplate(template.body, {
+          brand: brand.name,
+          persona: brand.persona,
+          topics: brand.topics.map((topic) => `- ${topic}`).join("\n"),
+          tone: tone.prompt,
+          language: language.name,
+        }),
+        ...(hostContext ? [hostContext] : []),
+      ].join("\n\n");
+
+      const history = await fitHistoryToBudget({ model, messages, summary: historySummary, signal, usage });
+      if (history.summaryFailed) {
+        send({ type: "warning", content: `Could not summarize earlier history; the oldest ${history.condensed} messages were left out.` });
+      } else if (history.condensed > 0) {
+        send({ type: "status", content: `Condensed ${history.condensed} earlier messages to stay within the context window.` });
+        if (conversationId && history.summary) {
+          try {
+            await getConversationStore().setSummary(clientId, conversationId, history.summary);
+          } catch (error) {
+            // The summary is only a saving for the next turn, which summarizes again without it.
+            log.warn("Failed to save history summary", { conversationId, error });
           }
+        }
+      }
 
-          send({ type: "error", content: errorMsg });
-          controller.close();
-          return;
+      const allMessages: ChatMessage[] = [
+        { role: "system", content: systemPrompt },
+        ...history.messages,
+      ];
+
+      const latest = allMessages[allMessages.length - 1];
+      if (images.length > 0 && latest.role === "user" && typeof latest.content === "string") {
+        if (vision) {
+          latest.content = [
+            { type: "text", text: latest.content },
+            ...images.map((image) => ({ type: "image" as const, mimeType: image.ref.mimeType, data: image.data })),
+          ];
+        } else {
+          send({ type: "warning", content: `${model} cannot view images; it only sees the file names.` });
         }
+      }
 
-        let fullContent = "";
-        const toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+      send({ type: "status", content: `Connecting to ${provider.label}...` });
 
-        for await (const chunk of response) {
-          const delta = chunk.choices[0]?.delta;
+      const maxRetries = readIntEnv("LLM_MAX_RETRIES", DEFAULT_MAX_RETRIES);
+      const idleTimeoutMs = readIntEnv("LLM_IDLE_TIMEOUT_MS", DEFAULT_LLM_IDLE_TIMEOUT_MS);
+      const imagesSent = images.length > 0 && vision;
 
-          if (delta?.content) {
-            fullContent += delta.content;
-            send({ type: "content", content: delta.content });
+      // Switches to the next model in the fallback chain that is configured and,
+      // when the conversation carries images, can view them.
+      const switchToFallback = () => {
+        while (fallbackModels.length > 0) {
+          const next = fallbackModels.shift()!;
+          try {
+            const resolved = resolveModel(next);
+            if (imagesSent && !resolved.vision) continue;
+            send({ type: "warning", content: `${activeModel} is overloaded or unavailable; switching to ${next}.` });
+            log.warn("Falling back to another model", { from: activeModel, to: next });
+            ({ provider, upstreamModel } = resolved);
+            activeModel = next;
+            return true;
+          } catch (error) {
+            if (!(error instanceof ProviderConfigError)) throw error;
+            log.warn("Skipping misconfigured fallback model", { model: next, error });
           }
+        }
+        return false;
+      };
+
+      const maxToolRounds = getMaxToolRounds();
+      const conversation = [...allMessages];
+
+      for (let round = 1; ; round++) {
+        const toolsEnabled = tools.length > 0 && round <= maxToolRounds;
+
+        estimatedTokens += estimateTokens(JSON.stringify(conversation));
+
+        let fullContent = "";
+        const toolCalls: ToolCall[] = [];
+
+        for (let attempt = 1; ; attempt++) {
+          const llmSpan = log.startSpan("llm.stream", { provider: provider.label, model: upstreamModel, round, attempt });
+          const streamStartedAt = performance.now();
+          let firstTokenMs: number | undefined;
 
-          if (delta?.tool_calls) {
-            for (const tc of delta.tool_calls) {
-              if (tc.index !== undefined) {
-                if (!toolCalls[tc.index]) {
-                  toolCalls[tc.index] = { id: tc.id || "", name: tc.function?.name || "", arguments: "" };
-                }
-                if (tc.id) toolCalls[tc.index].id = tc.id;
-                if (tc.function?.name) toolCalls[tc.index].name = tc.function.name;
-                if (tc.function?.arguments) toolCalls[tc.index].arguments += tc.function.arguments;
+          try {
+            for await (const event of withIdleTimeout(
+              (streamSignal) =>
+                provider.streamChat({
+                  model: upstreamModel,
+                  messages: conversation,
+                  tools: toolsEnabled ? tools : undefined,
+                  signal: streamSignal,
+                }),
+              idleTimeoutMs,
+              signal
+            )) {
+              if (event.type !== "usage") firstTokenMs ??= Math.round(performance.now() - streamStartedAt);
+              if (event.type === "usage") {
+                usage.add(activeModel, event.usage);
+              } else if (event.type === "text") {
+                fullContent += event.text;
+                send({ type: "content", content: event.text });
+              } else {
+                toolCalls.push(event.toolCall);
               }
             }
+            llmSpan.end({ ttftMs: firstTokenMs, toolCalls: toolCalls.length, outputChars: fullContent.length });
+            break;
+          } catch (providerError) {
+            llmSpan.end({ ttftMs: firstTokenMs, ...(signal.aborted ? { aborted: true } : { error: providerError }) });
+            if (signal.aborted) throw providerError;
+
+            // Once part of the reply has streamed, trying again would repeat it.
+            const retryable = !fullContent && toolCalls.length === 0 && isTransientError(providerError);
+            if (retryable && attempt <= maxRetries) {
+              const delayMs = backoffDelay(attempt);
+              log.warn("Retrying model request", { model: activeModel, attempt, delayMs: Math.round(delayMs), error: providerError });
+              send({ type: "status", content: `${provider.label} did not answer; retrying (attempt ${attempt + 1} of ${maxRetries + 1})...` });
+              await sleep(delayMs, signal);
+              continue;
+            }
+            if (retryable && switchToFallback()) {
+              attempt = 0;
+              continue;
+            }
+            send({ type: "error", content: provider.describeError(providerError), requestId });
+            await finish();
+            return;
           }
         }
 
-        if (toolCalls.length > 0) {
-          const toolNames = toolCalls.map((tc) => tc.name).join(", ");
-          send({ type: "status", content: `Using tools: ${toolNames}` });
+        estimatedTokens += estimateTokens(fullContent + toolCalls.map((tc) => tc.name + tc.arguments).join(""));
 
-          const toolMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
-            ...allMessages,
-            {
-              role: "assistant",
-              content: fullContent || null,
-              tool_calls: toolCalls.map((tc) => ({
-                id: tc.id,
-                type: "function" as const,
-                function: { name: tc.name, arguments: tc.arguments },
-              })),
-            },
-          ];
+        if (toolCalls.length === 0) break;
 
-          for (const tc of toolCalls) {
+        const toolNames = toolCalls.map((tc) => tc.name).join(", ");
+        send({ type: "tool_round", round, maxRounds: maxToolRounds, tools: toolCalls.map((tc) => tc.name) });
+        send({ type: "status", content: `Using tools (round ${round}/${maxToolRounds}): ${toolNames}` });
+        if (fullContent) send({ type: "content", content: "\n\n" });
+
+        conversation.push({
+          role: "assistant",
+          content: fullContent || null,
+          toolCalls,
+        });
+
+        // Calls in the same round run side by side; their results go back to the
+        // model in the order it made them.
+        const results = await Promise.all(
+          toolCalls.map(async (tc) => {
+            let args: Record<string, unknown> | null = null;
             try {
-              const args = JSON.parse(tc.arguments || "{}");
-              const result = await callMcpTool(mcpUrl, tc.name, args);
-              const resultText = result.content?.map((c) => c.text).join("\n") || JSON.stringify(result);
-              toolMessages.push({
-                role: "tool",
-                tool_call_id: tc.id,
-                content: resultText,
-              });
-            } catch (e) {
-              const err = e as Error;
-              toolMessages.push({
-                role: "tool",
-                tool_call_id: tc.id,
-                content: formatError("mcp", `Tool ${tc.name} failed`, err.message),
-              });
+              args = JSON.parse(tc.arguments || "{}");
+            } catch {
+              // Reported below as a tool_call_error so the model can retry with valid JSON.
             }
-          }
 
-          try {
-            const followUp = await openai.chat.completions.create({
-              model: model || "gpt-4o-mini",
-              messages: toolMessages,
-              stream: true,
-            });
-
-            for await (const chunk of followUp) {
-              const content = chunk.choices[0]?.delta?.content;
-              if (content) {
-                send({ type: "content", content });
+            const record: ToolCallRecord = { id: tc.id, name: tc.name, round, arguments: args, status: "running" };
+            toolCallRecords.push(record);
+            send({ type: "tool_call_start", id: tc.id, name: tc.name, round, arguments: args });
+
+            if (args && confirmationRequired.has(tc.name)) {
+              // Keyed by our own ID: some OpenAI-compatible backends send empty or repeated tool call IDs.
+              record.approvalId = crypto.randomUUID();
+              record.approval = "pending";
+              send({ type: "approval_required", id: tc.id, approvalId: record.approvalId, name: tc.name, arguments: args });
+              send({ type: "status", content: `Waiting for your approval to run ${tc.name}...` });
+              record.approval = await waitForApproval(record.approvalId, clientId, getApprovalTimeoutMs(), signal);
+              send({ type: "approval_resolved", id: tc.id, name: tc.name, decision: record.approval });
+            }
+
+            const toolSpan = log.startSpan("tool.call", { tool: tc.name, round });
+            let resultText: string;
+            let failure: string | null = null;
+
+            if (!args) {
+              failure = `Invalid JSON arguments: ${tc.arguments}`;
+              resultText = formatError("mcp", `Tool ${tc.name} failed`, failure);
+            } else if (record.approval === "denied" || record.approval === "expired") {
+              failure = record.approval === "denied" ? "Denied by the customer" : "Approval timed out";
+              resultText = `The customer did not approve running ${tc.name} (${failure.toLowerCase()}). Do not retry it unless they ask again.`;
+            } else if (tc.name === HANDOFF_TOOL.name && conversationId) {
+              const escalation = await requestEscalation({
+                clientId,
+                conversationId,
+                title: conversationTitle,
+                requestedBy: "assistant",
+                reason: typeof args.reason === "string" ? args.reason : undefined,
+              });
+              send({ type: "escalation", ...toEscalationState(escalation) });
+              resultText =
+                "The conversation is now queued for a human agent. Tell the customer that a person will join this chat shortly, and do not call any more tools.";
+            } else {
+              try {
+                const result = await callMcpTool(mcpServers, tc.name, args, {
+                  log,
+                  signal,
+                  sideEffects: confirmationRequired.has(tc.name),
+                });
+                const processed = processToolResult(result);
+                resultText = processed.text;
+                record.output = processed.output;
+                if (result.isError) failure = resultText;
+              } catch (e) {
+                if (signal.aborted) throw e;
+                const err = e as Error;
+                failure = err.message;
+                resultText = formatError("mcp", `Tool ${tc.name} failed`, err.message);
               }
             }
-          } catch (followUpError) {
-            const err = followUpError as Error;
-            send({ type: "error", content: formatError("openai", "Follow-up request failed", err.message) });
-          }
-        }
 
-        send({ type: "done" });
-        controller.close();
-      } catch (error) {
-        const err = error as Error;
-        let errorType = "unknown";
-        let errorMsg = err.message || "Unknown error";
-
-        if (errorMsg.includes("fetch") || errorMsg.includes("network") || errorMsg.includes("ENOTFOUND")) {
-          errorType = "network";
-          errorMsg = `Network error: Unable to reach external services. ${errorMsg}`;
-        } else if (errorMsg.includes("JSON")) {
-          errorType = "parse";
-          errorMsg = `Data parsing error: ${errorMsg}`;
+            record.durationMs = toolSpan.end({ ok: !failure, approval: record.approval });
+            if (failure) {
+              record.status = "error";
+              record.error = truncate(failure, TOOL_RESULT_PREVIEW_LENGTH);
+              send({ type: "tool_call_error", id: tc.id, name: tc.name, durationMs: record.durationMs, error: record.error });
+            } else {
+              record.status = "success";
+              record.result = truncate(resultText, TOOL_RESULT_PREVIEW_LENGTH);
+              send({
+                type: "tool_call_result",
+                id: tc.id,
+                name: tc.name,
+                durationMs: record.durationMs,
+                result: record.result,
+                output: record.output,
+              });
+            }
+
+            return resultText;
+          })
+        );
+        toolCalls.forEach((tc, index) => {
+          conversation.push({
+            role: "tool",
+            toolCallId: tc.id,
+            content: results[index],
+          });
+        });
+
+        if (round === maxToolRounds) {
+          send({ type: "warning", content: `Tool limit reached after ${maxToolRounds} rounds. Answering with the information gathered so far.` });
         }
+      }
+
+      send({ type: "usage", byModel: usage.byModel, total: usage.total });
+      send({ type: "done", requestId });
+      await finish();
+    } catch (error) {
+      if (signal.aborted) {
+        await finish();
+        return;
+      }
 
-        console.error(`[${errorType.toUpperCase()}] ${errorMsg}`);
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "error", content: errorMsg, errorType })}\n\n`));
-        controller.close();
+      const err = error as Error;
+      let errorType = "unknown";
+      let errorMsg = err.message || "Unknown error";
+
+      if (errorMsg.includes("fetch") || errorMsg.includes("network") || errorMsg.includes("ENOTFOUND")) {
+        errorType = "network";
+        errorMsg = `Network error: Unable to reach external services. ${errorMsg}`;
+      } else if (errorMsg.includes("JSON")) {
+        errorType = "parse";
+        errorMsg = `Data parsing error: ${errorMsg}`;
       }
-    },
-  });
-
-  return new Response(stream, {
-    headers: {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive",
-    },
-  });
+
+      log.error("Chat turn failed", { errorType, error: err });
+      send({ type: "error", content: errorMsg, errorType, requestId });
+      await finish();
+    }
+  };
+
+  void generate();
+  return chatStream.respond(request.signal);
 }
@@ -0,0 +1,27 @@
+import { cancelChatStream, resumeChatStream } from "@/lib/chat-streams";
+import { getClientId } from "@/lib/client-id";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Resumes a reply stream after a dropped connection, replaying the events after `Last-Event-ID`. */
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const response = resumeChatStream(id, await getClientId(), request.headers.get("Last-Event-ID"), request.signal);
+  if (!response) {
+    return Response.json({ error: "No reply stream with this ID, or it has expired" }, { status: 404 });
+  }
+  return response;
+}
+
+/** Stops generating the reply. Whatever was streamed so far is saved as an interrupted reply. */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!cancelChatStream(id, await getClientId())) {
+    return Response.json({ error: "No reply stream with this ID, or it has expired" }, { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+}
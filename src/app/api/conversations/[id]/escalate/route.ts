@@ -0,0 +1,30 @@
+import { getClientId } from "@/lib/client-id";
+import { getConversationStore } from "@/lib/conversations";
+import { requestEscalation, toEscalationState } from "@/lib/escalations";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** "Talk to a person": queues the conversation for a human agent. Body: `{ reason? }`. */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const clientId = await getClientId();
+
+  const body = ((await request.json().catch(() => null)) || {}) as { reason?: unknown };
+  const conversation = await getConversationStore().get(clientId, id);
+  if (!conversation) {
+    return Response.json({ error: "Conversation not found" }, { status: 404 });
+  }
+
+  const escalation = await requestEscalation({
+    clientId,
+    conversationId: id,
+    title: conversation.title,
+    requestedBy: "customer",
+    reason: typeof body.reason === "string" ? body.reason : undefined,
+  });
+  return Response.json({ escalation: toEscalationState(escalation) });
+}
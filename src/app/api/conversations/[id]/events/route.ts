@@ -0,0 +1,25 @@
+import { getClientId } from "@/lib/client-id";
+import { getConversationStore } from "@/lib/conversations";
+import { conversationEventStream, getEscalationStore } from "@/lib/escalations";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Live escalation updates and agent replies for the customer's view, starting with the current state. */
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const conversation = await getConversationStore().get(await getClientId(), id);
+  if (!conversation) {
+    return Response.json({ error: "Conversation not found" }, { status: 404 });
+  }
+
+  const escalation = await getEscalationStore().get(id);
+  return conversationEventStream(
+    id,
+    request.signal,
+    escalation ? { type: "escalation", status: escalation.status, agentName: escalation.agentName } : undefined
+  );
+}
@@ -0,0 +1,53 @@
+import { getClientId } from "@/lib/client-id";
+import { getConversationStore } from "@/lib/conversations";
+import { EXPORT_FORMATS, toMarkdown, toPlainText, toTranscript, type ExportFormat } from "@/lib/transcripts";
+
+export const runtime = "nodejs";
+
+const FORMATS: Record<ExportFormat, { extension: string; contentType: string }> = {
+  markdown: { extension: "md", contentType: "text/markdown; charset=utf-8" },
+  text: { extension: "txt", contentType: "text/plain; charset=utf-8" },
+  json: { extension: "json", contentType: "application/json; charset=utf-8" },
+};
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function fileName(title: string): string {
+  return title.replace(/[^\w\- ]+/g, "").trim().replace(/\s+/g, "-").toLowerCase() || "chat";
+}
+
+/**
+ * Downloads a conversation. Query: `format` (markdown, text or json;
+ * defaults to markdown) and optional `brand`, recorded in the JSON settings.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const query = new URL(request.url).searchParams;
+  const format = (query.get("format") || "markdown") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return Response.json({ error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+  }
+
+  const conversation = await getConversationStore().get(await getClientId(), id);
+  if (!conversation) {
+    return Response.json({ error: "Conversation not found" }, { status: 404 });
+  }
+
+  const transcript = toTranscript(conversation, query.get("brand") || undefined);
+  const body =
+    format === "json"
+      ? JSON.stringify(transcript, null, 2)
+      : format === "text"
+      ? toPlainText(transcript)
+      : toMarkdown(transcript);
+  const { extension, contentType } = FORMATS[format];
+  return new Response(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${fileName(conversation.title)}.${extension}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,81 @@
+import { getClientId } from "@/lib/client-id";
+import { getConversationStore, type MessageFeedback } from "@/lib/conversations";
+import { getFeedbackStore, MAX_FEEDBACK_COMMENT_LENGTH } from "@/lib/feedback";
+
+export const runtime = "nodejs";
+
+const UNKNOWN = "unknown";
+
+interface RouteContext {
+  params: Promise<{ id: string; messageId: string }>;
+}
+
+/** A reply this service gave; imported ones came from a file anyone can edit, so they cannot be rated. */
+async function findReply(clientId: string, id: string, messageId: string) {
+  const conversation = await getConversationStore().get(clientId, id);
+  const message = conversation?.messages.find((m) => m.id === messageId);
+  return conversation && message?.role === "assistant" && !message.imported ? { conversation, message } : null;
+}
+
+/** Rates an assistant reply. Body: `{ rating: "up" | "down", comment? }`; rating again replaces it. */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id, messageId } = await params;
+  const clientId = await getClientId();
+
+  let body: { rating?: unknown; comment?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON in request body" }, { status: 400 });
+  }
+  if (body.rating !== "up" && body.rating !== "down") {
+    return Response.json({ error: 'rating must be "up" or "down"' }, { status: 400 });
+  }
+  if (body.comment !== undefined && typeof body.comment !== "string") {
+    return Response.json({ error: "comment must be a string" }, { status: 400 });
+  }
+
+  const found = await findReply(clientId, id, messageId);
+  if (!found) {
+    return Response.json({ error: "Reply not found" }, { status: 404 });
+  }
+
+  const feedback: MessageFeedback = {
+    rating: body.rating,
+    comment: body.comment?.trim().slice(0, MAX_FEEDBACK_COMMENT_LENGTH) || undefined,
+    at: Date.now(),
+  };
+  await getConversationStore().setFeedback(clientId, id, messageId, feedback);
+
+  const { conversation, message } = found;
+  await getFeedbackStore().put({
+    conversationId: id,
+    clientId,
+    messageId,
+    title: conversation.title,
+    rating: feedback.rating,
+    comment: feedback.comment,
+    model: message.model ?? UNKNOWN,
+    tone: message.tone ?? UNKNOWN,
+    language: message.language ?? UNKNOWN,
+    tools: [...new Set(message.toolCalls?.map((toolCall) => toolCall.name) ?? [])],
+    repliedAt: message.timestamp,
+    ratedAt: feedback.at,
+  });
+  return Response.json({ feedback });
+}
+
+/** Withdraws the rating of an assistant reply. */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id, messageId } = await params;
+  const clientId = await getClientId();
+
+  const found = await findReply(clientId, id, messageId);
+  if (!found) {
+    return Response.json({ error: "Reply not found" }, { status: 404 });
+  }
+
+  await getConversationStore().setFeedback(clientId, id, messageId, null);
+  await getFeedbackStore().delete({ conversationId: id, messageId, repliedAt: found.message.timestamp });
+  return new Response(null, { status: 204 });
+}
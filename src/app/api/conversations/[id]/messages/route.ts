@@ -0,0 +1,58 @@
+import { AppendMessagesSchema, CHAT_LIMITS, toValidationIssues } from "@/lib/chat-contract";
+import { getClientId } from "@/lib/client-id";
+import { getConversationStore, type NewMessage } from "@/lib/conversations";
+import { getEscalationStore, isOpen, publish } from "@/lib/escalations";
+import { checkRateLimit, getRateLimitKeys, rateLimitResponse } from "@/lib/rate-limit";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Saves the customer's messages while a human agent has the chat. They are
+ * later part of the model's input, so they get the chat route's limits.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const clientId = await getClientId();
+
+  const rateLimit = await checkRateLimit(getRateLimitKeys(request, clientId));
+  if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+  const rawBody = await request.text();
+  if (new TextEncoder().encode(rawBody).length > CHAT_LIMITS.maxBodyBytes) {
+    return Response.json({ error: `Request body cannot exceed ${CHAT_LIMITS.maxBodyBytes} bytes` }, { status: 413 });
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(rawBody);
+  } catch {
+    return Response.json({ error: "Invalid JSON in request body" }, { status: 400 });
+  }
+
+  const parsed = AppendMessagesSchema.safeParse(json);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid messages", issues: toValidationIssues(parsed.error) }, { status: 400 });
+  }
+  const { messages } = parsed.data;
+
+  const conversation = await getConversationStore().append(
+    clientId,
+    id,
+    messages.map((m): NewMessage => ({ role: m.role, content: m.content }))
+  );
+  if (!conversation) {
+    return Response.json({ error: "Conversation not found" }, { status: 404 });
+  }
+
+  // While a human agent has the chat, customer messages go to them instead of the assistant.
+  if (isOpen(await getEscalationStore().get(id))) {
+    for (const message of conversation.messages.slice(-messages.length)) {
+      if (message.role === "user") publish(id, { type: "customer_message", message });
+    }
+  }
+  return Response.json({ conversation });
+}
@@ -0,0 +1,48 @@
+import { getClientId } from "@/lib/client-id";
+import { getConversationStore } from "@/lib/conversations";
+import { getEscalationStore, toEscalationState } from "@/lib/escalations";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const conversation = await getConversationStore().get(await getClientId(), id);
+  if (!conversation) {
+    return Response.json({ error: "Conversation not found" }, { status: 404 });
+  }
+  const escalation = await getEscalationStore().get(id);
+  return Response.json({ conversation, escalation: escalation ? toEscalationState(escalation) : null });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: { title?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON in request body" }, { status: 400 });
+  }
+  if (typeof body.title !== "string" || !body.title.trim()) {
+    return Response.json({ error: "title must be a non-empty string" }, { status: 400 });
+  }
+
+  const conversation = await getConversationStore().rename(await getClientId(), id, body.title);
+  if (!conversation) {
+    return Response.json({ error: "Conversation not found" }, { status: 404 });
+  }
+  return Response.json({ conversation });
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const deleted = await getConversationStore().delete(await getClientId(), id);
+  if (!deleted) {
+    return Response.json({ error: "Conversation not found" }, { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+}
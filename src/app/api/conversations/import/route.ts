@@ -0,0 +1,40 @@
+import { toValidationIssues } from "@/lib/chat-contract";
+import { getClientId } from "@/lib/client-id";
+import { getConversationStore } from "@/lib/conversations";
+import { checkRateLimit, getRateLimitKeys, rateLimitResponse } from "@/lib/rate-limit";
+import { MAX_IMPORT_BODY_BYTES, toImportedMessages, TranscriptSchema } from "@/lib/transcripts";
+
+export const runtime = "nodejs";
+
+/**
+ * Restores a JSON transcript export as a new conversation owned by the caller,
+ * keeping its timestamps. Returns the conversation and the settings it was
+ * exported with, so the chat can continue or re-run it on another model.
+ */
+export async function POST(request: Request) {
+  const clientId = await getClientId();
+  const rateLimit = await checkRateLimit(getRateLimitKeys(request, clientId));
+  if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+  const rawBody = await request.text();
+  if (new TextEncoder().encode(rawBody).length > MAX_IMPORT_BODY_BYTES) {
+    return Response.json({ error: `Transcript cannot exceed ${MAX_IMPORT_BODY_BYTES} bytes` }, { status: 413 });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return Response.json({ error: "Invalid JSON in request body" }, { status: 400 });
+  }
+
+  const parsed = TranscriptSchema.safeParse(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid transcript", issues: toValidationIssues(parsed.error) }, { status: 400 });
+  }
+
+  const store = getConversationStore();
+  const created = await store.create(clientId, parsed.data.conversation.title);
+  const conversation = await store.append(clientId, created.id, toImportedMessages(parsed.data));
+  return Response.json({ conversation, settings: parsed.data.settings }, { status: 201 });
+}
@@ -0,0 +1,28 @@
+import { getClientId } from "@/lib/client-id";
+import { getConversationStore } from "@/lib/conversations";
+import { checkRateLimit, getRateLimitKeys, rateLimitResponse } from "@/lib/rate-limit";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const clientId = await getClientId();
+  const conversations = await getConversationStore().list(clientId);
+  return Response.json({ conversations });
+}
+
+export async function POST(request: Request) {
+  const clientId = await getClientId();
+  const rateLimit = await checkRateLimit(getRateLimitKeys(request, clientId));
+  if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+  let body: { title?: unknown } = {};
+  try {
+    body = await request.json();
+  } catch {
+    // An empty body creates an untitled conversation.
+  }
+
+  const title = typeof body.title === "string" ? body.title : undefined;
+  const conversation = await getConversationStore().create(clientId, title);
+  return Response.json({ conversation }, { status: 201 });
+}
@@ -0,0 +1,30 @@
+import { isAdminRequest } from "@/lib/admin-auth";
+import { getConversationStore } from "@/lib/conversations";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Full transcript of a rated conversation for the quality report. Query:
+ * `clientId`, as listed with the conversation in `GET /api/feedback`. Admin only.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  if (!isAdminRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const clientId = new URL(request.url).searchParams.get("clientId");
+  if (!clientId) {
+    return Response.json({ error: "clientId is required" }, { status: 400 });
+  }
+
+  const conversation = await getConversationStore().get(clientId, id);
+  if (!conversation) {
+    return Response.json({ error: "Conversation not found" }, { status: 404 });
+  }
+  return Response.json({ conversation });
+}
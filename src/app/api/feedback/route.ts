@@ -0,0 +1,24 @@
+import { isAdminRequest } from "@/lib/admin-auth";
+import { buildFeedbackReport, getFeedbackStore } from "@/lib/feedback";
+import { parseDateRange } from "@/lib/usage";
+
+export const runtime = "nodejs";
+
+/**
+ * Answer quality report: satisfaction by model, tone, language, tool and day,
+ * and the most downvoted conversations, for replies sent between `from` and
+ * `to` (YYYY-MM-DD, UTC, inclusive; defaults to the last 30 days). Admin only.
+ */
+export async function GET(request: Request) {
+  if (!isAdminRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const range = parseDateRange(new URL(request.url).searchParams);
+  if ("error" in range) {
+    return Response.json({ error: range.error }, { status: 400 });
+  }
+
+  const records = await getFeedbackStore().listDays(range.dates);
+  return Response.json({ from: range.from, to: range.to, ...buildFeedbackReport(records, range.dates) });
+}
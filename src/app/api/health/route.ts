@@ -0,0 +1,39 @@
+import { isAdminRequest } from "@/lib/admin-auth";
+import { getHealthReport } from "@/lib/health";
+import { logger, REQUEST_ID_HEADER } from "@/lib/logger";
+import { getMcpServers } from "@/lib/mcp";
+
+export const runtime = "nodejs";
+
+/**
+ * Reachability and latency of each MCP server and LLM provider, for uptime
+ * monitors. Answers 200 only when everything is reachable, 503 otherwise.
+ * The dependency checks need the admin token; without it the route only
+ * reports that the app is up, so anonymous probes cost upstream nothing.
+ */
+export async function GET(request: Request) {
+  const requestId = crypto.randomUUID();
+  const headers = { "Cache-Control": "no-store", [REQUEST_ID_HEADER]: requestId };
+
+  if (!isAdminRequest(request)) {
+    return Response.json({ status: "ok", checkedAt: new Date().toISOString() }, { headers });
+  }
+
+  let servers;
+  try {
+    servers = getMcpServers();
+  } catch (error) {
+    return Response.json({ status: "down", error: (error as Error).message }, { status: 503, headers });
+  }
+
+  const report = await getHealthReport(servers);
+  if (report.status !== "ok") {
+    logger.warn("Health check failed", {
+      requestId,
+      route: "/api/health",
+      status: report.status,
+      failed: [...report.mcp, ...report.llm].filter((check) => !check.ok),
+    });
+  }
+  return Response.json(report, { status: report.status === "ok" ? 200 : 503, headers });
+}
@@ -0,0 +1,27 @@
+import { isAdminRequest } from "@/lib/admin-auth";
+import { rollbackSettings } from "@/lib/chat-settings";
+
+export const runtime = "nodejs";
+
+/** Makes `{ version }` live again by saving a copy of it as the newest version. Admin only. */
+export async function POST(request: Request) {
+  if (!isAdminRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { version?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON in request body" }, { status: 400 });
+  }
+  if (typeof body.version !== "number" || !Number.isInteger(body.version) || body.version < 0) {
+    return Response.json({ error: "version must be a non-negative integer" }, { status: 400 });
+  }
+
+  const saved = await rollbackSettings(body.version);
+  if (!saved) {
+    return Response.json({ error: "Version not found" }, { status: 404 });
+  }
+  return Response.json({ current: saved }, { status: 201 });
+}
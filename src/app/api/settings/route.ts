@@ -0,0 +1,53 @@
+import { isAdminRequest } from "@/lib/admin-auth";
+import { BrandConfigError } from "@/lib/brands";
+import { toValidationIssues } from "@/lib/chat-contract";
+import { ChatSettingsSchema, getCurrentSettings, getSettingsStore, TEMPLATE_VARIABLES } from "@/lib/chat-settings";
+
+export const runtime = "nodejs";
+
+const MAX_NOTE_LENGTH = 200;
+
+/** Live tones, languages and prompt templates, with the version history. Admin only. */
+export async function GET(request: Request) {
+  if (!isAdminRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const [current, versions] = await Promise.all([getCurrentSettings(), getSettingsStore().listVersions()]);
+  return Response.json({ current, versions, variables: TEMPLATE_VARIABLES });
+}
+
+/** Saves `{ settings, note? }` as a new version, which takes effect on the next chat turn. */
+export async function PUT(request: Request) {
+  if (!isAdminRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { settings?: unknown; note?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON in request body" }, { status: 400 });
+  }
+
+  let parsed: ReturnType<typeof ChatSettingsSchema.safeParse>;
+  try {
+    // Checks the settings against every brand's default tone and language.
+    parsed = ChatSettingsSchema.safeParse(body.settings);
+  } catch (error) {
+    if (!(error instanceof BrandConfigError)) throw error;
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid settings", issues: toValidationIssues(parsed.error) },
+      { status: 400 }
+    );
+  }
+  if (body.note !== undefined && (typeof body.note !== "string" || body.note.length > MAX_NOTE_LENGTH)) {
+    return Response.json({ error: `note must be a string of at most ${MAX_NOTE_LENGTH} characters` }, { status: 400 });
+  }
+
+  const saved = await getSettingsStore().save(parsed.data, body.note?.trim() || undefined);
+  return Response.json({ current: saved }, { status: 201 });
+}
@@ -0,0 +1,26 @@
+import { isAdminRequest } from "@/lib/admin-auth";
+import { getSettingsVersion } from "@/lib/chat-settings";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ version: string }>;
+}
+
+/** One version's full settings, for review before rolling back. Admin only. */
+export async function GET(request: Request, { params }: RouteContext) {
+  if (!isAdminRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const version = Number((await params).version);
+  if (!Number.isInteger(version) || version < 0) {
+    return Response.json({ error: "Version not found" }, { status: 404 });
+  }
+
+  const found = await getSettingsVersion(version);
+  if (!found) {
+    return Response.json({ error: "Version not found" }, { status: 404 });
+  }
+  return Response.json({ version: found });
+}
@@ -0,0 +1,41 @@
+import { isAdminRequest } from "@/lib/admin-auth";
+import { getUsageStore, mergeUsage, parseDateRange, sumUsage, type UsageByModel } from "@/lib/usage";
+
+export const runtime = "nodejs";
+
+/**
+ * Usage and cost report for budgeting. Query: `from` and `to` as YYYY-MM-DD
+ * (UTC, inclusive; defaults to the last 30 days) and an optional
+ * `conversationId` to include that conversation's totals.
+ */
+export async function GET(request: Request) {
+  if (!isAdminRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const range = parseDateRange(params);
+  if ("error" in range) {
+    return Response.json({ error: range.error }, { status: 400 });
+  }
+
+  const { from, to, dates } = range;
+  const store = getUsageStore();
+  const days = await store.getDays(dates);
+
+  const byModel = days.reduce<UsageByModel>((acc, day) => mergeUsage(acc, day.byModel), {});
+
+  const conversationId = params.get("conversationId");
+  const conversation = conversationId ? await store.getConversation(conversationId) : undefined;
+
+  return Response.json({
+    from,
+    to,
+    total: sumUsage(byModel),
+    byModel,
+    days: days.map((day) => ({ ...day, total: sumUsage(day.byModel) })),
+    ...(conversationId && {
+      conversation: { id: conversationId, byModel: conversation || {}, total: sumUsage(conversation || {}) },
+    }),
+  });
+}
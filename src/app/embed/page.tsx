@@ -0,0 +1,28 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import ChatApp from "@/components/ChatApp";
+import { resolveBrand, toPublicBrand } from "@/lib/brands";
+import { getChatSettings, toPublicSettings } from "@/lib/chat-settings";
+
+interface EmbedProps {
+	searchParams: Promise<{ brand?: string | string[] }>;
+}
+
+async function getBrand({ searchParams }: EmbedProps) {
+	const { brand } = await searchParams;
+	const host = (await headers()).get("host");
+	return resolveBrand({ id: typeof brand === "string" ? brand : undefined, host });
+}
+
+export async function generateMetadata(props: EmbedProps): Promise<Metadata> {
+	const brand = await getBrand(props);
+	return brand ? { title: `${brand.name} Support` } : {};
+}
+
+/** The chat as framed by `public/widget.js` on storefront pages. */
+export default async function Embed(props: EmbedProps) {
+	const brand = await getBrand(props);
+	if (!brand) notFound();
+	return <ChatApp brand={toPublicBrand(brand)} options={toPublicSettings(await getChatSettings())} embedded />;
+}
@@ -0,0 +1,1243 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import toast, { Toaster } from "react-hot-toast";
+import ConversationSidebar from "@/components/ConversationSidebar";
+import Markdown from "@/components/Markdown";
+import MessageFeedbackControls from "@/components/MessageFeedback";
+import MessageAttachments from "@/components/MessageAttachments";
+import ToolCallCard from "@/components/ToolCallCard";
+import ToolOutputCards from "@/components/ToolOutputCards";
+import type { PublicBrand } from "@/lib/brands/types";
+import type { PublicChatSettings } from "@/lib/chat-settings/types";
+import type { ConversationEvent, EscalationState } from "@/lib/escalations/types";
+import { readSseEvents } from "@/lib/sse-client";
+import type {
+	AttachmentRef,
+	Conversation,
+	ConversationSummary,
+	MessageFeedback,
+	ToolCallRecord,
+} from "@/lib/conversations/types";
+import {
+	ATTACHMENT_LIMITS,
+	CHAT_LIMITS,
+	checkAttachment,
+	DEFAULT_MODEL,
+	HostContextSchema,
+	MODEL_OPTIONS,
+	STREAM_ID_HEADER,
+	type HostContext,
+	type MessagePart,
+	type ValidationErrorBody,
+	type ValidationIssue,
+} from "@/lib/chat-contract";
+import { HOST_MESSAGE_SOURCE, WIDGET_MESSAGE_SOURCE, type HostMessage, type WidgetEvent } from "@/lib/embed";
+
+interface Message {
+	id: string;
+	role: "user" | "assistant" | "agent" | "status" | "error";
+	content: string;
+	timestamp?: number;
+	agentName?: string;
+	attachments?: AttachmentRef[];
+	interrupted?: boolean;
+	imported?: boolean;
+	toolCalls?: ToolCallRecord[];
+	feedback?: MessageFeedback;
+	issues?: ValidationIssue[];
+	/** Server request ID of a failed reply, for support to find it in the logs. */
+	requestId?: string;
+}
+
+class RequestValidationError extends Error {
+	constructor(message: string, public issues: ValidationIssue[]) {
+		super(message);
+	}
+}
+
+interface PendingAttachment {
+	key: string;
+	name: string;
+	status: "uploading" | "ready";
+	previewUrl?: string;
+	ref?: AttachmentRef;
+}
+
+// Delay before reopening the live agent connection after it drops.
+const EVENTS_RECONNECT_MS = 3000;
+// A dropped reply stream is resumed after 1s, 2s, 4s... up to this many times in a row.
+const RESUME_BACKOFF_MS = 1000;
+const MAX_RESUME_ATTEMPTS = 5;
+
+// The events of a reply stream this page acts on; it ignores the others.
+type ChatStreamEvent =
+	| { type: "content" | "status" | "warning"; content: string }
+	| { type: "error"; content: string; requestId?: string }
+	| { type: "reply"; id: string }
+	| { type: "tool_call_start"; id: string; name: string; round: number; arguments: ToolCallRecord["arguments"] }
+	| { type: "approval_required"; id: string; approvalId: string }
+	| { type: "approval_resolved"; id: string; decision: ToolCallRecord["approval"] }
+	| { type: "tool_call_result"; id: string; durationMs: number; result: string; output?: ToolCallRecord["output"] }
+	| { type: "tool_call_error"; id: string; durationMs: number; error: string }
+	| ({ type: "escalation" } & EscalationState)
+	| { type: "done"; requestId?: string };
+
+class StreamLostError extends Error {}
+
+/** Resolves after `ms`, or as soon as `signal` aborts. */
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		const timer = setTimeout(resolve, ms);
+		signal.addEventListener(
+			"abort",
+			() => {
+				clearTimeout(timer);
+				resolve();
+			},
+			{ once: true }
+		);
+	});
+}
+
+class RateLimitError extends Error {
+	constructor(message: string, public retryAfterSeconds: number) {
+		super(message);
+	}
+}
+
+interface Settings {
+	model: string;
+	tone: string;
+	language: string;
+}
+
+interface ChatAppProps {
+	brand: PublicBrand;
+	options: PublicChatSettings;
+	/** Framed by the widget script: compact layout, and the host page's API over postMessage. */
+	embedded?: boolean;
+}
+
+export default function ChatApp({ brand, options, embedded = false }: ChatAppProps) {
+	const [messages, setMessages] = useState<Message[]>([]);
+	const [input, setInput] = useState("");
+	const [isLoading, setIsLoading] = useState(false);
+	const [showSettings, setShowSettings] = useState(false);
+	const [showHistory, setShowHistory] = useState(!embedded);
+	const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+	const [conversationId, setConversationId] = useState<string | null>(null);
+	const [status, setStatus] = useState<string>("");
+	const [rateLimit, setRateLimit] = useState<{ message: string; until: number } | null>(null);
+	const [retryIn, setRetryIn] = useState(0);
+	const [escalation, setEscalation] = useState<EscalationState | null>(null);
+	const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+	const [isDragging, setIsDragging] = useState(false);
+	const [showExport, setShowExport] = useState(false);
+	const [hostContext, setHostContext] = useState<HostContext | null>(null);
+	const [settings, setSettings] = useState<Settings>({
+		model: DEFAULT_MODEL,
+		tone: options.tones.some((t) => t.id === brand.defaultTone) ? brand.defaultTone : options.tones[0]?.id,
+		language: options.languages.some((l) => l.code === brand.defaultLanguage)
+			? brand.defaultLanguage
+			: options.languages[0]?.code,
+	});
+	const messagesEndRef = useRef<HTMLDivElement>(null);
+	const textareaRef = useRef<HTMLTextAreaElement>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const importInputRef = useRef<HTMLInputElement>(null);
+	const abortControllerRef = useRef<AbortController | null>(null);
+	const streamIdRef = useRef<string | null>(null);
+	// Where widget events go; learned from the host page's `init` message.
+	const hostOriginRef = useRef<string | null>(null);
+
+	const postToHost = (event: WidgetEvent) => {
+		if (!embedded || !hostOriginRef.current) return;
+		window.parent.postMessage({ source: WIDGET_MESSAGE_SOURCE, ...event }, hostOriginRef.current);
+	};
+
+	const loadConversations = async () => {
+		try {
+			const response = await fetch("/api/conversations");
+			if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+			const data: { conversations: ConversationSummary[] } = await response.json();
+			setConversations(data.conversations);
+		} catch (err) {
+			toast.error(`Failed to load history: ${(err as Error).message}`, { duration: 5000 });
+		}
+	};
+
+	useEffect(() => {
+		loadConversations();
+	}, []);
+
+	useEffect(() => {
+		if (!embedded) return;
+		const onMessage = (event: MessageEvent) => {
+			const data = event.data as HostMessage | null;
+			if (event.source !== window.parent || data?.source !== HOST_MESSAGE_SOURCE) return;
+			if (brand.embedOrigins && !brand.embedOrigins.includes(event.origin)) return;
+
+			if (data.type === "init") hostOriginRef.current = event.origin;
+			const parsed = HostContextSchema.safeParse(data.context ?? {});
+			if (parsed.success) {
+				setHostContext(data.context ? parsed.data : null);
+			} else {
+				// Only the host page can fix its context, so the error goes back to the sender.
+				const error: WidgetEvent = {
+					type: "error",
+					code: "invalid_context",
+					message: parsed.error.issues[0]?.message ?? "Invalid context",
+				};
+				window.parent.postMessage({ source: WIDGET_MESSAGE_SOURCE, ...error }, event.origin);
+			}
+		};
+		window.addEventListener("message", onMessage);
+		// Nothing sensitive in it, so any embedding page may learn that the chat loaded.
+		window.parent.postMessage({ source: WIDGET_MESSAGE_SOURCE, type: "ready" }, "*");
+		return () => window.removeEventListener("message", onMessage);
+	}, [embedded, brand.embedOrigins]);
+
+	const scrollToBottom = () => {
+		messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+	};
+
+	useEffect(() => {
+		scrollToBottom();
+	}, [messages]);
+
+	useEffect(() => {
+		if (!rateLimit) return;
+		const tick = () => {
+			const remaining = Math.ceil((rateLimit.until - Date.now()) / 1000);
+			setRetryIn(Math.max(remaining, 0));
+			if (remaining <= 0) setRateLimit(null);
+		};
+		tick();
+		const interval = setInterval(tick, 1000);
+		return () => clearInterval(interval);
+	}, [rateLimit]);
+
+	const withAgent = escalation?.status === "queued" || escalation?.status === "claimed";
+
+	useEffect(() => {
+		if (conversationId && escalation) {
+			postToHost({ type: "escalation", conversationId, status: escalation.status, agentName: escalation.agentName });
+		}
+		// eslint-disable-next-line react-hooks/exhaustive-deps -- report escalation changes only, not each new postToHost
+	}, [escalation?.status, escalation?.agentName]);
+
+	// While a human agent has the chat, their replies arrive on a separate stream.
+	useEffect(() => {
+		if (!conversationId || !withAgent) return;
+		const controller = new AbortController();
+
+		const addMessages = (incoming: Message[]) =>
+			setMessages((prev) => {
+				const added = incoming.filter((message) => !prev.some((m) => m.id === message.id));
+				return added.length > 0 ? [...prev, ...added] : prev;
+			});
+
+		const listen = async () => {
+			while (!controller.signal.aborted) {
+				try {
+					const response = await fetch(`/api/conversations/${conversationId}/events`, { signal: controller.signal });
+					if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+					// Replies sent while the stream was down, or to another server instance, are
+					// only in the saved conversation, so catch up from it once subscribed.
+					const saved = await fetch(`/api/conversations/${conversationId}`, { signal: controller.signal });
+					if (saved.ok) {
+						const data: { conversation: Conversation } = await saved.json();
+						addMessages(data.conversation.messages.filter((m) => m.role === "agent"));
+					}
+					await readSseEvents<ConversationEvent>(response, (event) => {
+						if (event.type === "agent_message") {
+							addMessages([event.message]);
+						} else if (event.type === "escalation") {
+							setEscalation({ status: event.status, agentName: event.agentName });
+							if (event.status === "closed") {
+								toast(`${event.agentName || "The agent"} ended the chat. The assistant is back.`, { duration: 5000 });
+							}
+						}
+					});
+				} catch {
+					if (controller.signal.aborted) return;
+				}
+				await new Promise((resolve) => setTimeout(resolve, EVENTS_RECONNECT_MS));
+			}
+		};
+
+		listen();
+		return () => controller.abort();
+	}, [conversationId, withAgent]);
+
+	useEffect(() => {
+		if (textareaRef.current) {
+			textareaRef.current.style.height = "auto";
+			textareaRef.current.style.height = Math.min(textareaRef.current.scrollHeight, 150) + "px";
+		}
+	}, [input]);
+
+	const uploadFiles = async (files: File[]) => {
+		const room = ATTACHMENT_LIMITS.maxPerMessage - pendingAttachments.length;
+		if (files.length > room) {
+			toast.error(`You can attach up to ${ATTACHMENT_LIMITS.maxPerMessage} files to a message`, { duration: 5000 });
+		}
+
+		await Promise.all(
+			files.slice(0, Math.max(room, 0)).map(async (file) => {
+				const problem = checkAttachment(file);
+				if (problem) {
+					toast.error(`${file.name}: ${problem}`, { duration: 5000 });
+					return;
+				}
+
+				const key = crypto.randomUUID();
+				const previewUrl = file.type.startsWith("image/") ? URL.createObjectURL(file) : undefined;
+				setPendingAttachments((prev) => [...prev, { key, name: file.name, status: "uploading", previewUrl }]);
+
+				try {
+					const form = new FormData();
+					form.append("file", file);
+					const response = await fetch("/api/attachments", { method: "POST", body: form });
+					const body = (await response.json().catch(() => null)) as { attachment?: AttachmentRef; error?: string } | null;
+					if (!response.ok || !body?.attachment) {
+						throw new Error(body?.error || `HTTP ${response.status}: ${response.statusText}`);
+					}
+					const ref = body.attachment;
+					setPendingAttachments((prev) => prev.map((a) => (a.key === key ? { ...a, status: "ready", ref } : a)));
+				} catch (err) {
+					toast.error(`Failed to attach ${file.name}: ${(err as Error).message}`, { duration: 5000 });
+					removeAttachment(key);
+				}
+			})
+		);
+	};
+
+	const removeAttachment = (key: string) => {
+		setPendingAttachments((prev) => {
+			const removed = prev.find((a) => a.key === key);
+			if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+			return prev.filter((a) => a.key !== key);
+		});
+	};
+
+	const handleDrop = (e: React.DragEvent) => {
+		e.preventDefault();
+		setIsDragging(false);
+		if (canAttach && e.dataTransfer.files.length > 0) uploadFiles(Array.from(e.dataTransfer.files));
+	};
+
+	const handlePaste = (e: React.ClipboardEvent) => {
+		if (!canAttach || e.clipboardData.files.length === 0) return;
+		e.preventDefault();
+		uploadFiles(Array.from(e.clipboardData.files));
+	};
+
+	const isUploading = pendingAttachments.some((a) => a.status === "uploading");
+	const canAttach = !withAgent && !isLoading;
+	// Files cannot be passed on to a human agent, so they have to be removed first.
+	const attachmentsBlocked = withAgent && pendingAttachments.length > 0;
+	const canSend = (!!input.trim() || pendingAttachments.length > 0) && !isUploading && !rateLimit && !attachmentsBlocked;
+	// The reply being streamed is always the last message.
+	const streamingId = isLoading ? messages[messages.length - 1]?.id : undefined;
+
+	const handleSubmit = async (e?: React.FormEvent) => {
+		e?.preventDefault();
+		if (!canSend || isLoading) return;
+
+		const attachments = pendingAttachments.flatMap((a) => (a.ref ? [a.ref] : []));
+		const userMessage: Message = {
+			id: Date.now().toString(),
+			role: "user",
+			content: input.trim(),
+			timestamp: Date.now(),
+			...(attachments.length > 0 && { attachments }),
+		};
+
+		setMessages((prev) => [...prev, userMessage]);
+		setInput("");
+		pendingAttachments.forEach((a) => a.previewUrl && URL.revokeObjectURL(a.previewUrl));
+		setPendingAttachments([]);
+
+		if (withAgent && conversationId) {
+			await sendToAgent(conversationId, userMessage);
+			return;
+		}
+
+		setIsLoading(true);
+
+		const assistantMessage: Message = {
+			id: (Date.now() + 1).toString(),
+			role: "assistant",
+			content: "",
+			timestamp: Date.now(),
+		};
+		setMessages((prev) => [...prev, assistantMessage]);
+		let assistantId = assistantMessage.id;
+
+		const abortController = new AbortController();
+		abortControllerRef.current = abortController;
+
+		try {
+			let activeId = conversationId;
+			if (!activeId) {
+				const created = await fetch("/api/conversations", { method: "POST", signal: abortController.signal });
+				if (!created.ok) {
+					throw new Error(`HTTP ${created.status}: ${created.statusText}`);
+				}
+				const data: { conversation: Conversation } = await created.json();
+				activeId = data.conversation.id;
+				setConversationId(activeId);
+				postToHost({ type: "conversation_started", conversationId: activeId });
+			}
+
+			// Chosen up front so that Stop can cancel the reply before the response arrives.
+			streamIdRef.current = crypto.randomUUID();
+			const response = await fetch("/api/chat", {
+				method: "POST",
+				headers: { "Content-Type": "application/json", [STREAM_ID_HEADER]: streamIdRef.current },
+				body: JSON.stringify({
+					conversationId: activeId,
+					message: [
+						...(userMessage.content ? [{ type: "text" as const, text: userMessage.content }] : []),
+						...attachments.map((a) => ({ type: "attachment" as const, attachmentId: a.id })),
+					] satisfies MessagePart[],
+					brand: brand.id,
+					model: settings.model,
+					tone: settings.tone,
+					language: settings.language,
+					...(hostContext && { context: hostContext }),
+				}),
+				signal: abortController.signal,
+			});
+
+			if (!response.ok) {
+				const body = (await response.json().catch(() => null)) as
+					| (ValidationErrorBody & { escalation?: EscalationState })
+					| null;
+				if (response.status === 429) {
+					const retryAfter = parseInt(response.headers.get("Retry-After") || "", 10);
+					throw new RateLimitError(body?.error || "Too many requests", Number.isFinite(retryAfter) ? retryAfter : 60);
+				}
+				if (response.status === 409 && body?.escalation) {
+					// A human agent took over since this page last heard; send the message to them instead.
+					setMessages((prev) => prev.filter((m) => m.id !== assistantId));
+					setEscalation(body.escalation);
+					if (userMessage.attachments) {
+						// Give the message back with its files, which the customer has to remove to reach the agent.
+						const { attachments } = userMessage;
+						setMessages((prev) => prev.filter((m) => m.id !== userMessage.id));
+						setInput(userMessage.content);
+						setPendingAttachments(
+							attachments.map((ref) => ({
+								key: ref.id,
+								name: ref.name,
+								status: "ready",
+								ref,
+								...(ref.mimeType.startsWith("image/") && { previewUrl: `/api/attachments/${ref.id}` }),
+							}))
+						);
+						return;
+					}
+					await sendToAgent(activeId, userMessage);
+					return;
+				}
+				if (response.status === 400 && body?.issues) {
+					throw new RequestValidationError(body.error, body.issues);
+				}
+				throw new Error(body?.error || `HTTP ${response.status}: ${response.statusText}`);
+			}
+
+			const updateToolCall = (id: string, patch: Partial<ToolCallRecord>) => {
+				setMessages((prev) =>
+					prev.map((m) =>
+						m.id === assistantId
+							? { ...m, toolCalls: m.toolCalls?.map((tc) => (tc.id === id ? { ...tc, ...patch } : tc)) }
+							: m
+					)
+				);
+			};
+
+			const handleEvent = (data: ChatStreamEvent) => {
+				if (data.type === "content") {
+					setStatus("");
+					setMessages((prev) =>
+						prev.map((m) =>
+							m.id === assistantId
+								? { ...m, content: m.content + data.content }
+								: m
+						)
+					);
+				} else if (data.type === "reply") {
+					// Adopt the id the reply is saved under, so it can be rated.
+					const localId = assistantId;
+					assistantId = data.id;
+					setMessages((prev) => prev.map((m) => (m.id === localId ? { ...m, id: data.id } : m)));
+				} else if (data.type === "status") {
+					setStatus(data.content);
+				} else if (data.type === "tool_call_start") {
+					const toolCall: ToolCallRecord = {
+						id: data.id,
+						name: data.name,
+						round: data.round,
+						arguments: data.arguments,
+						status: "running",
+					};
+					setMessages((prev) =>
+						prev.map((m) =>
+							m.id === assistantId
+								? { ...m, toolCalls: [...(m.toolCalls || []), toolCall] }
+								: m
+						)
+					);
+				} else if (data.type === "approval_required") {
+					updateToolCall(data.id, { approval: "pending", approvalId: data.approvalId });
+				} else if (data.type === "approval_resolved") {
+					updateToolCall(data.id, { approval: data.decision });
+				} else if (data.type === "tool_call_result") {
+					updateToolCall(data.id, {
+						status: "success",
+						durationMs: data.durationMs,
+						result: data.result,
+						output: data.output,
+					});
+				} else if (data.type === "tool_call_error") {
+					updateToolCall(data.id, { status: "error", durationMs: data.durationMs, error: data.error });
+				} else if (data.type === "escalation") {
+					setEscalation({ status: data.status, agentName: data.agentName });
+				} else if (data.type === "warning") {
+					toast(data.content, { icon: "⚠️", duration: 4000 });
+				} else if (data.type === "error") {
+					setStatus("");
+					toast.error(data.content, { duration: 6000 });
+					setMessages((prev) =>
+						prev.map((m) =>
+							m.id === assistantId
+								? { ...m, role: "error", content: data.content, requestId: data.requestId }
+								: m
+						)
+					);
+				} else if (data.type === "done") {
+					setStatus("");
+				}
+			};
+
+			// A dropped connection resumes the same reply from the last event received,
+			// retrying with backoff; only a run of failed attempts gives up on it.
+			const streamId = response.headers.get(STREAM_ID_HEADER);
+			streamIdRef.current = streamId;
+			let body: Response | null = response;
+			let lastEventId: string | undefined;
+			let finished = false;
+			let failures = 0;
+			while (true) {
+				try {
+					if (!body) {
+						body = await fetch(`/api/chat/streams/${streamId}`, {
+							headers: lastEventId ? { "Last-Event-ID": lastEventId } : {},
+							signal: abortController.signal,
+						});
+						if (body.status === 404) throw new StreamLostError("The reply was lost while reconnecting");
+						if (!body.ok) throw new Error(`HTTP ${body.status}: ${body.statusText}`);
+					}
+					await readSseEvents<ChatStreamEvent>(body, (data, id) => {
+						lastEventId = id ?? lastEventId;
+						failures = 0;
+						if (data.type === "done" || data.type === "error") finished = true;
+						handleEvent(data);
+					});
+					// A clean end without a final event means the connection was cut.
+					if (finished || !streamId) break;
+					throw new Error("The connection closed before the reply finished");
+				} catch (err) {
+					const retry = streamId && !(err instanceof StreamLostError) && ++failures <= MAX_RESUME_ATTEMPTS;
+					if (abortController.signal.aborted || !retry) throw err;
+				}
+
+				body = null;
+				setStatus(`Connection lost. Reconnecting (attempt ${failures} of ${MAX_RESUME_ATTEMPTS})...`);
+				await wait(RESUME_BACKOFF_MS * 2 ** (failures - 1), abortController.signal);
+			}
+		} catch (err) {
+			if (abortController.signal.aborted) {
+				setMessages((prev) =>
+					prev.map((m) => (m.id === assistantId ? { ...m, interrupted: true } : m))
+				);
+				return;
+			}
+
+			if (err instanceof RateLimitError) {
+				setMessages((prev) => prev.filter((m) => m.id !== userMessage.id && m.id !== assistantId));
+				setInput(userMessage.content);
+				setRateLimit({ message: err.message, until: Date.now() + err.retryAfterSeconds * 1000 });
+				return;
+			}
+
+			if (err instanceof RequestValidationError) {
+				toast.error(err.message, { duration: 6000 });
+				setMessages((prev) =>
+					prev.map((m) =>
+						m.id === assistantId
+							? { ...m, role: "error", content: err.message, issues: err.issues }
+							: m
+					)
+				);
+				return;
+			}
+
+			const error = err as Error;
+			toast.error(`Connection failed: ${error.message}`, { duration: 5000 });
+			setMessages((prev) =>
+				prev.map((m) =>
+					m.id === assistantId
+						? { ...m, role: "error", content: `Connection failed: ${error.message}` }
+						: m
+				)
+			);
+		} finally {
+			abortControllerRef.current = null;
+			streamIdRef.current = null;
+			setIsLoading(false);
+			setStatus("");
+			loadConversations();
+		}
+	};
+
+	const sendToAgent = async (id: string, userMessage: Message) => {
+		try {
+			const response = await fetch(`/api/conversations/${id}/messages`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ messages: [{ role: "user", content: userMessage.content }] }),
+			});
+			if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+		} catch (err) {
+			toast.error(`Failed to send your message: ${(err as Error).message}`, { duration: 5000 });
+			setMessages((prev) => prev.filter((m) => m.id !== userMessage.id));
+			setInput(userMessage.content);
+		}
+	};
+
+	const talkToPerson = async () => {
+		if (!conversationId) return;
+		try {
+			const response = await fetch(`/api/conversations/${conversationId}/escalate`, { method: "POST" });
+			if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+			const data: { escalation: EscalationState } = await response.json();
+			setEscalation(data.escalation);
+		} catch (err) {
+			toast.error(`Failed to reach an agent: ${(err as Error).message}`, { duration: 5000 });
+		}
+	};
+
+	const rateMessage = async (messageId: string, rating: MessageFeedback["rating"] | null, comment?: string) => {
+		if (!conversationId) return;
+		const url = `/api/conversations/${conversationId}/messages/${messageId}/feedback`;
+		try {
+			const response = rating
+				? await fetch(url, {
+						method: "PUT",
+						headers: { "Content-Type": "application/json" },
+						body: JSON.stringify({ rating, comment }),
+				  })
+				: await fetch(url, { method: "DELETE" });
+			if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+			const feedback = rating ? ((await response.json()) as { feedback: MessageFeedback }).feedback : undefined;
+			setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, feedback } : m)));
+			if (comment) toast.success("Thanks for the feedback");
+		} catch (err) {
+			toast.error(`Failed to save feedback: ${(err as Error).message}`, { duration: 5000 });
+		}
+	};
+
+	const respondToApproval = async (id: string, approved: boolean) => {
+		try {
+			const response = await fetch(`/api/chat/approvals/${id}`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ approved }),
+			});
+			if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+		} catch (err) {
+			toast.error(`Failed to send your decision: ${(err as Error).message}`, { duration: 5000 });
+		}
+	};
+
+	const stopGeneration = () => {
+		abortControllerRef.current?.abort();
+		// Dropping the connection leaves the reply running for a resume, so stop it explicitly.
+		if (streamIdRef.current) {
+			fetch(`/api/chat/streams/${streamIdRef.current}`, { method: "DELETE" }).catch(() => {});
+		}
+	};
+
+	const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+		if (e.key === "Enter" && !e.shiftKey) {
+			e.preventDefault();
+			handleSubmit();
+		}
+	};
+
+	const handleSuggestionClick = (suggestion: string) => {
+		setInput(suggestion);
+		setTimeout(() => handleSubmit(), 0);
+	};
+
+	const clearChat = () => {
+		if (conversationId) postToHost({ type: "conversation_ended", conversationId });
+		setMessages([]);
+		setConversationId(null);
+		setEscalation(null);
+		toast.success("Started a new chat");
+	};
+
+	const importTranscript = async (file: File) => {
+		try {
+			let transcript: unknown;
+			try {
+				transcript = JSON.parse(await file.text());
+			} catch {
+				throw new Error("Choose a JSON transcript export");
+			}
+			const response = await fetch("/api/conversations/import", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify(transcript),
+			});
+			const body = (await response.json().catch(() => null)) as
+				| (ValidationErrorBody & { conversation: Conversation; settings: Partial<Settings> })
+				| null;
+			if (!response.ok) {
+				const issue = body?.issues?.[0];
+				throw new Error(issue ? `${issue.field}: ${issue.message}` : body?.error || `HTTP ${response.status}`);
+			}
+			if (!body) throw new Error("Empty response");
+
+			// Settings the chat no longer offers keep their current value.
+			const { model, tone, language } = body.settings;
+			setSettings((prev) => ({
+				model: model && MODEL_OPTIONS.some((m) => m.value === model) ? model : prev.model,
+				tone: tone && options.tones.some((t) => t.id === tone) ? tone : prev.tone,
+				language: language && options.languages.some((l) => l.code === language) ? language : prev.language,
+			}));
+			setConversationId(body.conversation.id);
+			setMessages(body.conversation.messages);
+			setEscalation(null);
+			loadConversations();
+			toast.success(`Imported "${body.conversation.title}"`);
+		} catch (err) {
+			toast.error(`Import failed: ${(err as Error).message}`, { duration: 6000 });
+		}
+	};
+
+	const openConversation = async (id: string) => {
+		if (id === conversationId) return;
+		try {
+			const response = await fetch(`/api/conversations/${id}`);
+			if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+			const data: { conversation: Conversation; escalation: EscalationState | null } = await response.json();
+			setConversationId(id);
+			setMessages(data.conversation.messages);
+			setEscalation(data.escalation);
+		} catch (err) {
+			toast.error(`Failed to open chat: ${(err as Error).message}`, { duration: 5000 });
+		}
+	};
+
+	const renameConversation = async (id: string, title: string) => {
+		try {
+			const response = await fetch(`/api/conversations/${id}`, {
+				method: "PATCH",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ title }),
+			});
+			if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+			loadConversations();
+		} catch (err) {
+			toast.error(`Failed to rename chat: ${(err as Error).message}`, { duration: 5000 });
+		}
+	};
+
+	const deleteConversation = async (id: string) => {
+		if (!window.confirm("Delete this chat? This cannot be undone.")) return;
+		try {
+			const response = await fetch(`/api/conversations/${id}`, { method: "DELETE" });
+			if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+			if (id === conversationId) {
+				setMessages([]);
+				setConversationId(null);
+				setEscalation(null);
+			}
+			setConversations((prev) => prev.filter((c) => c.id !== id));
+			toast.success("Chat deleted");
+		} catch (err) {
+			toast.error(`Failed to delete chat: ${(err as Error).message}`, { duration: 5000 });
+		}
+	};
+
+	return (
+		<div
+			className="h-screen overflow-hidden bg-[#0c0c0c] text-[#e0e0e0] flex"
+			style={{ "--accent": brand.theme.accent, "--accent-hover": brand.theme.accentHover } as React.CSSProperties}
+		>
+			<Toaster
+				position="top-center"
+				toastOptions={{
+					style: {
+						background: "#1a1a1a",
+						color: "#e0e0e0",
+						border: "1px solid #252525",
+						fontSize: "14px",
+					},
+					error: {
+						style: { border: "1px solid #ef4444" },
+					},
+					success: {
+						style: { border: "1px solid #22c55e" },
+					},
+				}}
+			/>
+
+			{showHistory && (
+				<ConversationSidebar
+					conversations={conversations}
+					activeId={conversationId}
+					disabled={isLoading}
+					onSelect={openConversation}
+					onNew={clearChat}
+					onRename={renameConversation}
+					onDelete={deleteConversation}
+				/>
+			)}
+
+			<div
+				className={`flex-1 flex flex-col max-w-3xl mx-auto h-full relative ${embedded ? "p-4" : "p-6"}`}
+				onDragOver={(e) => {
+					if (!canAttach) return;
+					e.preventDefault();
+					setIsDragging(true);
+				}}
+				onDragLeave={(e) => {
+					if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+				}}
+				onDrop={handleDrop}
+			>
+				{isDragging && (
+					<div className="absolute inset-4 z-10 flex items-center justify-center rounded-xl border-2 border-dashed border-[var(--accent)] bg-[#0c0c0c]/90 pointer-events-none">
+						<p className="text-sm text-[#888]">Drop images or PDFs to attach them</p>
+					</div>
+				)}
+				<div className="flex-shrink-0 flex justify-between items-center mb-6">
+					<div className="flex items-center gap-2">
+						<button
+							onClick={() => setShowHistory(!showHistory)}
+							className={`p-2 rounded-lg transition-all ${
+								showHistory
+									? "bg-[#252525] text-white"
+									: "text-[#666] hover:text-[#999] hover:bg-[#1a1a1a]"
+							}`}
+							title="Chat history"
+						>
+							<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+								<path d="M3 6h18M3 12h18M3 18h18" />
+							</svg>
+						</button>
+						<h1 className="text-lg tracking-tight text-[#888]">{brand.title}</h1>
+					</div>
+					<div className="flex gap-2">
+						{conversationId && !withAgent && (
+							<button
+								onClick={talkToPerson}
+								disabled={isLoading}
+								className="p-2 rounded-lg text-[#666] hover:text-[#999] hover:bg-[#1a1a1a] transition-all disabled:opacity-50"
+								title="Talk to a person"
+							>
+								<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+									<path d="M20 21v-2a4 4 0 00-4-4H8a4 4 0 00-4 4v2" />
+									<circle cx="12" cy="7" r="4" />
+								</svg>
+							</button>
+						)}
+						{!embedded && (
+							<>
+								<input
+									ref={importInputRef}
+									type="file"
+									accept="application/json,.json"
+									className="hidden"
+									onChange={(e) => {
+										const file = e.target.files?.[0];
+										e.target.value = "";
+										if (file) importTranscript(file);
+									}}
+								/>
+								<button
+									onClick={() => importInputRef.current?.click()}
+									disabled={isLoading}
+									className="p-2 rounded-lg text-[#666] hover:text-[#999] hover:bg-[#1a1a1a] transition-all disabled:opacity-50"
+									title="Import transcript"
+								>
+									<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+										<path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4M17 8l-5-5-5 5M12 3v12" />
+									</svg>
+								</button>
+							</>
+						)}
+						{conversationId && (
+							<div className="relative">
+								<button
+									onClick={() => setShowExport(!showExport)}
+									className={`p-2 rounded-lg transition-all ${
+										showExport ? "bg-[#252525] text-white" : "text-[#666] hover:text-[#999] hover:bg-[#1a1a1a]"
+									}`}
+									title="Export transcript"
+								>
+									<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+										<path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4M7 10l5 5 5-5M12 15V3" />
+									</svg>
+								</button>
+								{showExport && (
+									<div className="absolute right-0 top-full mt-1 z-20 w-40 py-1 bg-[#141414] border border-[#252525] rounded-lg shadow-lg text-sm">
+										{(
+											[
+												["markdown", "Markdown"],
+												["text", "Plain text"],
+												["json", "JSON (importable)"],
+											] as const
+										).map(([format, label]) => (
+											<a
+												key={format}
+												href={`/api/conversations/${conversationId}/export?format=${format}&brand=${brand.id}`}
+												download
+												onClick={() => setShowExport(false)}
+												className="block px-3 py-2 text-[#999] hover:text-[#e0e0e0] hover:bg-[#1a1a1a]"
+											>
+												{label}
+											</a>
+										))}
+									</div>
+								)}
+							</div>
+						)}
+						{messages.length > 0 && (
+							<button
+								onClick={clearChat}
+								className="p-2 rounded-lg text-[#666] hover:text-[#999] hover:bg-[#1a1a1a] transition-all"
+								title="New chat"
+							>
+								<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+									<path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2" />
+								</svg>
+							</button>
+						)}
+						<button
+							onClick={() => setShowSettings(!showSettings)}
+							className={`p-2 rounded-lg transition-all ${
+								showSettings
+									? "bg-[#252525] text-white"
+									: "text-[#666] hover:text-[#999] hover:bg-[#1a1a1a]"
+							}`}
+							title="Settings"
+						>
+							<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+								<circle cx="12" cy="12" r="3" />
+								<path d="M12 1v2M12 21v2M4.22 4.22l1.42 1.42M18.36 18.36l1.42 1.42M1 12h2M21 12h2M4.22 19.78l1.42-1.42M18.36 5.64l1.42-1.42" />
+							</svg>
+						</button>
+						{embedded && (
+							<button
+								onClick={() => postToHost({ type: "close" })}
+								className="p-2 rounded-lg text-[#666] hover:text-[#999] hover:bg-[#1a1a1a] transition-all"
+								title="Close"
+							>
+								<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+									<path d="M18 6L6 18M6 6l12 12" />
+								</svg>
+							</button>
+						)}
+					</div>
+				</div>
+
+				<div className="flex-1 min-h-0 overflow-y-auto mb-4 space-y-4">
+					{messages.length === 0 ? (
+						<div className="flex flex-col items-center justify-center h-full text-center">
+							<div className="w-16 h-16 mb-4 rounded-full bg-[#1a1a1a] flex items-center justify-center">
+								<svg width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="#666" strokeWidth="1.5">
+									<path d="M21 15a2 2 0 01-2 2H7l-4 4V5a2 2 0 012-2h14a2 2 0 012 2z" />
+								</svg>
+							</div>
+							<h2 className="text-[#888] text-lg mb-2">{brand.welcome.heading}</h2>
+							<p className="text-[#555] text-sm max-w-md">{brand.welcome.body}</p>
+						</div>
+					) : (
+						messages.map((message) => (
+							<div
+								key={message.id}
+								className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
+							>
+								<div
+									className={`max-w-[80%] px-4 py-3 rounded-xl ${
+										message.role === "user"
+											? "bg-[var(--accent)] text-white"
+											: message.role === "error"
+											? "bg-red-500/10 border border-red-500/30 text-red-400"
+											: "bg-[#1a1a1a] border border-[#252525]"
+									}`}
+								>
+									{message.role === "error" && (
+										<p className="text-xs text-red-500 mb-1 font-medium">Error</p>
+									)}
+									{message.role === "agent" && (
+										<p className="text-xs text-[var(--accent)] mb-1 font-medium">{message.agentName || "Support agent"}</p>
+									)}
+									{message.imported && (
+										<p className="text-xs text-[#555] mb-1 font-medium">Imported reply</p>
+									)}
+									{message.attachments && <MessageAttachments attachments={message.attachments} />}
+									{message.toolCalls?.map((toolCall) => (
+										<ToolCallCard key={toolCall.id} toolCall={toolCall} onDecision={respondToApproval} />
+									))}
+									{message.toolCalls?.map(
+										(toolCall) => toolCall.output && <ToolOutputCards key={toolCall.id} output={toolCall.output} />
+									)}
+									{message.role === "assistant" && message.content ? (
+										<Markdown content={message.content} streaming={message.id === streamingId} />
+									) : (
+										(message.content || !message.attachments) && (
+											<p className="text-sm whitespace-pre-wrap leading-relaxed">{message.content || "..."}</p>
+										)
+									)}
+									{message.issues && (
+										<ul className="mt-2 space-y-1 text-xs">
+											{message.issues.map((issue, i) => (
+												<li key={i}>
+													<span className="font-mono text-red-300">{issue.field}</span>: {issue.message}
+												</li>
+											))}
+										</ul>
+									)}
+									{message.interrupted && (
+										<p className="text-xs text-[#555] mt-2 italic">Stopped</p>
+									)}
+									{message.requestId && (
+										<p className="text-xs text-[#555] mt-2 font-mono select-all">Reference: {message.requestId}</p>
+									)}
+									{message.role === "assistant" && !message.imported && conversationId && message.id !== streamingId && (
+										<MessageFeedbackControls
+											feedback={message.feedback}
+											onRate={(rating, comment) => rateMessage(message.id, rating, comment)}
+										/>
+									)}
+								</div>
+							</div>
+						))
+					)}
+					<div ref={messagesEndRef} />
+				</div>
+
+				{status && (
+					<div className="flex-shrink-0 mb-2 px-3 py-2 bg-[#1a1a1a] border border-[#252525] rounded-lg flex items-center gap-2">
+						<div className="flex gap-1">
+							<span className="w-2 h-2 bg-[var(--accent)] rounded-full animate-bounce" style={{ animationDelay: "0ms" }} />
+							<span className="w-2 h-2 bg-[var(--accent)] rounded-full animate-bounce" style={{ animationDelay: "150ms" }} />
+							<span className="w-2 h-2 bg-[var(--accent)] rounded-full animate-bounce" style={{ animationDelay: "300ms" }} />
+						</div>
+						<p className="text-xs text-[#888]">{status}</p>
+					</div>
+				)}
+
+				{withAgent && (
+					<div className="flex-shrink-0 mb-2 px-3 py-2 bg-[#1a1a1a] border border-[var(--accent)] rounded-lg">
+						<p className="text-xs text-[#888]">
+							{escalation?.status === "claimed"
+								? `You're chatting with ${escalation.agentName}, a member of our support team.`
+								: "Waiting for a member of our support team to join. You can keep typing; they'll see your messages."}
+						</p>
+					</div>
+				)}
+
+				{rateLimit && (
+					<div className="flex-shrink-0 mb-2 px-3 py-2 bg-amber-500/10 border border-amber-500/30 rounded-lg flex items-center justify-between gap-2">
+						<p className="text-xs text-amber-400">{rateLimit.message}</p>
+						<p className="text-xs text-amber-400 font-mono flex-shrink-0">
+							{retryIn >= 60 ? `${Math.floor(retryIn / 60)}m ${retryIn % 60}s` : `${retryIn}s`}
+						</p>
+					</div>
+				)}
+
+				{messages.length === 0 && brand.suggestions.length > 0 && (
+					<div className="flex-shrink-0 mb-3 flex flex-wrap gap-2">
+						{brand.suggestions.map((suggestion, i) => (
+							<button
+								key={i}
+								onClick={() => handleSuggestionClick(suggestion)}
+								disabled={isLoading}
+								className="px-3 py-2 text-xs bg-[#1a1a1a] border border-[#252525] rounded-lg text-[#888] hover:text-[#e0e0e0] hover:border-[#333] transition-all disabled:opacity-50"
+							>
+								{suggestion}
+							</button>
+						))}
+					</div>
+				)}
+
+				{pendingAttachments.length > 0 && (
+					<div className="flex-shrink-0 mb-2 flex flex-wrap gap-2">
+						{pendingAttachments.map((attachment) => (
+							<div
+								key={attachment.key}
+								className="flex items-center gap-2 pl-1 pr-2 py-1 bg-[#1a1a1a] border border-[#252525] rounded-lg text-xs text-[#888]"
+							>
+								{attachment.previewUrl ? (
+									// eslint-disable-next-line @next/next/no-img-element -- local object URL preview
+									<img src={attachment.previewUrl} alt="" className="w-8 h-8 object-cover rounded" />
+								) : (
+									<span className="w-8 h-8 flex items-center justify-center rounded bg-[#252525]">PDF</span>
+								)}
+								<span className="truncate max-w-[10rem]">{attachment.name}</span>
+								{attachment.status === "uploading" && <span className="text-[#555]">uploading…</span>}
+								<button
+									type="button"
+									onClick={() => removeAttachment(attachment.key)}
+									className="text-[#666] hover:text-[#e0e0e0]"
+									title="Remove"
+								>
+									×
+								</button>
+							</div>
+						))}
+						{attachmentsBlocked && (
+							<p className="w-full text-xs text-amber-400">
+								Files cannot be sent to a support agent. Remove them to send your message.
+							</p>
+						)}
+					</div>
+				)}
+
+				<form onSubmit={handleSubmit} className="flex-shrink-0 relative">
+					<input
+						ref={fileInputRef}
+						type="file"
+						multiple
+						accept={[...ATTACHMENT_LIMITS.imageTypes, ...ATTACHMENT_LIMITS.documentTypes].join(",")}
+						className="hidden"
+						onChange={(e) => {
+							if (e.target.files) uploadFiles(Array.from(e.target.files));
+							e.target.value = "";
+						}}
+					/>
+					{!withAgent && (
+						<button
+							type="button"
+							onClick={() => fileInputRef.current?.click()}
+							disabled={!canAttach}
+							className="absolute left-3 top-4 p-2 rounded-lg text-[#666] hover:text-[#999] hover:bg-[#252525] transition-all disabled:opacity-50"
+							title="Attach images or PDFs"
+						>
+							<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+								<path d="M21.44 11.05l-9.19 9.19a6 6 0 01-8.49-8.49l9.19-9.19a4 4 0 015.66 5.66l-9.2 9.19a2 2 0 01-2.83-2.83l8.49-8.48" />
+							</svg>
+						</button>
+					)}
+					<textarea
+						ref={textareaRef}
+						value={input}
+						onChange={(e) => setInput(e.target.value)}
+						onKeyDown={handleKeyDown}
+						onPaste={handlePaste}
+						placeholder="Type your message... (Shift+Enter for new line)"
+						maxLength={CHAT_LIMITS.maxMessageLength}
+						disabled={isLoading}
+						rows={1}
+						className={`w-full py-4 ${withAgent ? "pl-5" : "pl-14"} pr-14 bg-[#1a1a1a] border border-[#252525] rounded-xl text-[#e0e0e0] placeholder-[#555] focus:outline-none focus:border-[#333] transition-colors resize-none`}
+					/>
+					{isLoading ? (
+						<button
+							type="button"
+							onClick={stopGeneration}
+							className="absolute right-3 top-4 p-2 rounded-lg text-[#e0e0e0] hover:bg-[#252525] transition-all"
+							title="Stop generating"
+						>
+							<svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+								<rect x="6" y="6" width="12" height="12" rx="2" />
+							</svg>
+						</button>
+					) : (
+						<button
+							type="submit"
+							disabled={!canSend}
+							className={`absolute right-3 top-4 p-2 rounded-lg transition-all ${
+								!canSend
+									? "text-[#444] cursor-not-allowed"
+									: "text-[var(--accent)] hover:bg-[#252525]"
+							}`}
+						>
+							<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+								<path d="M22 2L11 13M22 2l-7 20-4-9-9-4 20-7z" />
+							</svg>
+						</button>
+					)}
+				</form>
+			</div>
+
+			{showSettings && (
+				<div className="w-72 h-full border-l border-[#252525] p-6 bg-[#0c0c0c] flex-shrink-0 overflow-y-auto">
+					<h2 className="text-sm text-[#888] mb-6">Settings</h2>
+
+					<div className="space-y-6">
+						<div>
+							<label className="block text-xs text-[#666] mb-2">Model</label>
+							<select
+								value={settings.model}
+								onChange={(e) => setSettings({ ...settings, model: e.target.value })}
+								className="w-full py-2 px-3 bg-[#1a1a1a] border border-[#252525] rounded-lg text-sm text-[#e0e0e0] focus:outline-none focus:border-[#333]"
+							>
+								{MODEL_OPTIONS.map((option) => (
+									<option key={option.value} value={option.value}>
+										{option.label}
+									</option>
+								))}
+							</select>
+						</div>
+
+						<div>
+							<label className="block text-xs text-[#666] mb-2">Tone</label>
+							<select
+								value={settings.tone}
+								onChange={(e) => setSettings({ ...settings, tone: e.target.value })}
+								className="w-full py-2 px-3 bg-[#1a1a1a] border border-[#252525] rounded-lg text-sm text-[#e0e0e0] focus:outline-none focus:border-[#333]"
+							>
+								{options.tones.map((tone) => (
+									<option key={tone.id} value={tone.id}>
+										{tone.label}
+									</option>
+								))}
+							</select>
+						</div>
+
+						<div>
+							<label className="block text-xs text-[#666] mb-2">Language</label>
+							<select
+								value={settings.language}
+								onChange={(e) => setSettings({ ...settings, language: e.target.value })}
+								className="w-full py-2 px-3 bg-[#1a1a1a] border border-[#252525] rounded-lg text-sm text-[#e0e0e0] focus:outline-none focus:border-[#333]"
+							>
+								{options.languages.map((language) => (
+									<option key={language.code} value={language.code}>
+										{language.label}
+									</option>
+								))}
+							</select>
+						</div>
+
+						<div className="pt-4 border-t border-[#252525]">
+							<p className="text-xs text-[#555]">
+								Powered by OpenAI & MCP
+							</p>
+						</div>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
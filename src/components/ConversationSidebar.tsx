@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import type { ConversationSummary } from "@/lib/conversations/types";
+
+interface ConversationSidebarProps {
+	conversations: ConversationSummary[];
+	activeId: string | null;
+	disabled?: boolean;
+	onSelect: (id: string) => void;
+	onNew: () => void;
+	onRename: (id: string, title: string) => void;
+	onDelete: (id: string) => void;
+}
+
+export default function ConversationSidebar({
+	conversations,
+	activeId,
+	disabled,
+	onSelect,
+	onNew,
+	onRename,
+	onDelete,
+}: ConversationSidebarProps) {
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [draftTitle, setDraftTitle] = useState("");
+
+	const startRename = (conversation: ConversationSummary) => {
+		setEditingId(conversation.id);
+		setDraftTitle(conversation.title);
+	};
+
+	const commitRename = () => {
+		if (editingId && draftTitle.trim()) {
+			onRename(editingId, draftTitle.trim());
+		}
+		setEditingId(null);
+	};
+
+	return (
+		<div className="w-64 h-full border-r border-[#252525] p-4 bg-[#0c0c0c] flex-shrink-0 flex flex-col">
+			<button
+				onClick={onNew}
+				disabled={disabled}
+				className="mb-4 w-full py-2 px-3 text-sm text-left bg-[#1a1a1a] border border-[#252525] rounded-lg text-[#888] hover:text-[#e0e0e0] hover:border-[#333] transition-all disabled:opacity-50"
+			>
+				+ New chat
+			</button>
+
+			<h2 className="text-xs text-[#555] mb-2">History</h2>
+
+			<div className="flex-1 min-h-0 overflow-y-auto space-y-1">
+				{conversations.length === 0 && <p className="text-xs text-[#444]">No past chats yet</p>}
+				{conversations.map((conversation) => (
+					<div
+						key={conversation.id}
+						className={`group flex items-center gap-1 rounded-lg transition-all ${
+							conversation.id === activeId ? "bg-[#1a1a1a]" : "hover:bg-[#141414]"
+						}`}
+					>
+						{editingId === conversation.id ? (
+							<input
+								autoFocus
+								value={draftTitle}
+								onChange={(e) => setDraftTitle(e.target.value)}
+								onBlur={commitRename}
+								onKeyDown={(e) => {
+									if (e.key === "Enter") commitRename();
+									if (e.key === "Escape") setEditingId(null);
+								}}
+								className="flex-1 min-w-0 py-2 px-3 bg-[#1a1a1a] border border-[#333] rounded-lg text-sm text-[#e0e0e0] focus:outline-none"
+							/>
+						) : (
+							<button
+								onClick={() => onSelect(conversation.id)}
+								disabled={disabled}
+								className={`flex-1 min-w-0 py-2 px-3 text-left text-sm truncate disabled:opacity-50 ${
+									conversation.id === activeId ? "text-[#e0e0e0]" : "text-[#888]"
+								}`}
+								title={conversation.title}
+							>
+								{conversation.title}
+							</button>
+						)}
+						{editingId !== conversation.id && (
+							<div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+								<button
+									onClick={() => startRename(conversation)}
+									className="p-1 text-[#666] hover:text-[#999]"
+									title="Rename"
+								>
+									<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+										<path d="M12 20h9M16.5 3.5a2.12 2.12 0 013 3L7 19l-4 1 1-4 12.5-12.5z" />
+									</svg>
+								</button>
+								<button
+									onClick={() => onDelete(conversation.id)}
+									disabled={disabled && conversation.id === activeId}
+									className="p-1 text-[#666] hover:text-red-400 disabled:opacity-50"
+									title="Delete"
+								>
+									<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+										<path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2" />
+									</svg>
+								</button>
+							</div>
+						)}
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { memo, useRef, useState, type ComponentProps } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import rehypeSanitize from "rehype-sanitize";
+import remarkGfm from "remark-gfm";
+import { closeOpenMarkdown } from "@/lib/markdown";
+
+interface MarkdownProps {
+	content: string;
+	/** Set while the reply is still arriving, so unfinished syntax renders stably. */
+	streaming?: boolean;
+}
+
+const COPIED_RESET_MS = 1500;
+
+function CodeBlock({ children }: ComponentProps<"pre">) {
+	const preRef = useRef<HTMLPreElement>(null);
+	const [copied, setCopied] = useState(false);
+
+	const copy = async () => {
+		try {
+			await navigator.clipboard.writeText(preRef.current?.textContent ?? "");
+			setCopied(true);
+			setTimeout(() => setCopied(false), COPIED_RESET_MS);
+		} catch {
+			// Clipboard access can be denied (e.g. in an insecure iframe); the code stays selectable.
+		}
+	};
+
+	return (
+		<div className="group/code relative my-2">
+			<pre
+				ref={preRef}
+				className="overflow-x-auto rounded-lg bg-[#0c0c0c] border border-[#252525] p-3 text-xs leading-relaxed font-mono"
+			>
+				{children}
+			</pre>
+			<button
+				type="button"
+				onClick={copy}
+				className="absolute top-2 right-2 px-2 py-1 text-[10px] rounded-md border border-[#333] bg-[#1a1a1a] text-[#999] hover:text-[#e0e0e0] opacity-0 group-hover/code:opacity-100 focus:opacity-100 transition-opacity"
+			>
+				{copied ? "Copied" : "Copy"}
+			</button>
+		</div>
+	);
+}
+
+// Defined once so that re-rendering on every streamed token keeps component
+// identity, and with it the DOM and copy-button state, intact.
+const COMPONENTS: Components = {
+	pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+	code: ({ className, children }) =>
+		className ? (
+			<code className={className}>{children}</code>
+		) : (
+			<code className="px-1 py-0.5 rounded bg-[#0c0c0c] border border-[#252525] text-[0.85em] font-mono">{children}</code>
+		),
+	a: ({ href, children }) => (
+		<a href={href} target="_blank" rel="noopener noreferrer" className="text-[var(--accent)] underline underline-offset-2 hover:opacity-80">
+			{children}
+		</a>
+	),
+	// An image would load by itself, and its URL can carry conversation text to
+	// any host, so it is shown as a link the reader chooses to follow.
+	img: ({ src, alt }) => (
+		<a href={typeof src === "string" ? src : undefined} target="_blank" rel="noopener noreferrer" className="text-[var(--accent)] underline underline-offset-2 hover:opacity-80">
+			{alt || "Image"}
+		</a>
+	),
+	p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0">{children}</p>,
+	ul: ({ children }) => <ul className="my-2 pl-5 list-disc space-y-1">{children}</ul>,
+	ol: ({ children }) => <ol className="my-2 pl-5 list-decimal space-y-1">{children}</ol>,
+	h1: ({ children }) => <h3 className="mt-3 mb-2 text-base font-semibold">{children}</h3>,
+	h2: ({ children }) => <h3 className="mt-3 mb-2 text-base font-semibold">{children}</h3>,
+	h3: ({ children }) => <h4 className="mt-3 mb-1 font-semibold">{children}</h4>,
+	blockquote: ({ children }) => <blockquote className="my-2 pl-3 border-l-2 border-[#333] text-[#999]">{children}</blockquote>,
+	hr: () => <hr className="my-3 border-[#252525]" />,
+	table: ({ children }) => (
+		<div className="my-2 overflow-x-auto rounded-lg border border-[#252525]">
+			<table className="w-full text-xs border-collapse">{children}</table>
+		</div>
+	),
+	thead: ({ children }) => <thead className="bg-[#141414] text-[#bbb]">{children}</thead>,
+	th: ({ children, style }) => (
+		<th style={style} className="px-3 py-2 text-left font-medium border-b border-[#252525]">
+			{children}
+		</th>
+	),
+	td: ({ children, style }) => (
+		<td style={style} className="px-3 py-2 border-t border-[#252525]">
+			{children}
+		</td>
+	),
+};
+
+const REMARK_PLUGINS = [remarkGfm];
+const REHYPE_PLUGINS = [rehypeSanitize];
+
+/** Renders assistant markdown with GitHub extensions. Raw HTML and images in the reply are never rendered. */
+function Markdown({ content, streaming }: MarkdownProps) {
+	return (
+		<div className="text-sm leading-relaxed break-words">
+			<ReactMarkdown remarkPlugins={REMARK_PLUGINS} rehypePlugins={REHYPE_PLUGINS} components={COMPONENTS}>
+				{streaming ? closeOpenMarkdown(content) : content}
+			</ReactMarkdown>
+		</div>
+	);
+}
+
+export default memo(Markdown);
@@ -0,0 +1,43 @@
+"use client";
+
+import type { AttachmentRef } from "@/lib/conversations/types";
+
+interface MessageAttachmentsProps {
+	attachments: AttachmentRef[];
+}
+
+function formatSize(bytes: number) {
+	return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function MessageAttachments({ attachments }: MessageAttachmentsProps) {
+	return (
+		<div className="flex flex-wrap gap-2 mb-2">
+			{attachments.map((attachment) =>
+				attachment.mimeType.startsWith("image/") ? (
+					<a key={attachment.id} href={`/api/attachments/${attachment.id}`} target="_blank" rel="noreferrer">
+						{/* eslint-disable-next-line @next/next/no-img-element -- served by our own route, not optimizable */}
+						<img
+							src={`/api/attachments/${attachment.id}`}
+							alt={attachment.name}
+							className="h-24 max-w-[12rem] object-cover rounded-lg border border-white/20"
+						/>
+					</a>
+				) : (
+					<a
+						key={attachment.id}
+						href={`/api/attachments/${attachment.id}`}
+						className="flex items-center gap-2 px-3 py-2 rounded-lg bg-black/20 border border-white/20 text-xs hover:bg-black/30"
+					>
+						<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+							<path d="M14 2H6a2 2 0 00-2 2v16a2 2 0 002 2h12a2 2 0 002-2V8z" />
+							<path d="M14 2v6h6" />
+						</svg>
+						<span className="truncate max-w-[10rem]">{attachment.name}</span>
+						<span className="opacity-60">{formatSize(attachment.size)}</span>
+					</a>
+				)
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import type { MessageFeedback as Feedback } from "@/lib/conversations/types";
+
+interface MessageFeedbackProps {
+	feedback?: Feedback;
+	/** Saves a rating, or clears it with null. */
+	onRate: (rating: Feedback["rating"] | null, comment?: string) => Promise<void>;
+}
+
+const iconButtonClass = "p-1 rounded-md transition-colors disabled:opacity-50";
+
+function ThumbIcon({ down }: { down?: boolean }) {
+	return (
+		<svg
+			width="14"
+			height="14"
+			viewBox="0 0 24 24"
+			fill="none"
+			stroke="currentColor"
+			strokeWidth="2"
+			strokeLinecap="round"
+			strokeLinejoin="round"
+			className={down ? "rotate-180" : undefined}
+		>
+			<path d="M7 10v12" />
+			<path d="M15 5.88 14 10h5.83a2 2 0 0 1 1.92 2.56l-2.33 8A2 2 0 0 1 17.5 22H4a2 2 0 0 1-2-2v-8a2 2 0 0 1 2-2h2.76a2 2 0 0 0 1.79-1.11L12 2a3.13 3.13 0 0 1 3 3.88Z" />
+		</svg>
+	);
+}
+
+/** Thumbs up/down under an assistant reply; a thumbs down invites an optional comment. */
+export default function MessageFeedback({ feedback, onRate }: MessageFeedbackProps) {
+	const [saving, setSaving] = useState(false);
+	const [commenting, setCommenting] = useState(false);
+	const [comment, setComment] = useState("");
+
+	const rate = async (rating: Feedback["rating"] | null, withComment?: string) => {
+		setSaving(true);
+		try {
+			await onRate(rating, withComment);
+			setCommenting(rating === "down" && withComment === undefined);
+			if (withComment !== undefined) setComment("");
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<div className="mt-2 text-xs text-[#555]">
+			<div className="flex items-center gap-1">
+				<button
+					type="button"
+					title="Helpful"
+					onClick={() => rate(feedback?.rating === "up" ? null : "up")}
+					disabled={saving}
+					className={`${iconButtonClass} ${feedback?.rating === "up" ? "text-[#22c55e]" : "hover:text-[#999]"}`}
+				>
+					<ThumbIcon />
+				</button>
+				<button
+					type="button"
+					title="Not helpful"
+					onClick={() => rate(feedback?.rating === "down" ? null : "down")}
+					disabled={saving}
+					className={`${iconButtonClass} ${feedback?.rating === "down" ? "text-red-400" : "hover:text-[#999]"}`}
+				>
+					<ThumbIcon down />
+				</button>
+				{feedback?.comment && !commenting && <span className="ml-1 truncate">“{feedback.comment}”</span>}
+			</div>
+			{commenting && feedback?.rating === "down" && (
+				<form
+					onSubmit={(e) => {
+						e.preventDefault();
+						if (comment.trim()) rate("down", comment.trim());
+					}}
+					className="mt-2 flex gap-2"
+				>
+					<input
+						value={comment}
+						onChange={(e) => setComment(e.target.value)}
+						placeholder="What went wrong? (optional)"
+						maxLength={300}
+						autoFocus
+						className="flex-1 py-1.5 px-2 bg-[#141414] border border-[#252525] rounded-lg text-xs text-[#e0e0e0] focus:outline-none focus:border-[#333]"
+					/>
+					<button
+						type="submit"
+						disabled={saving || !comment.trim()}
+						className="px-2 py-1.5 rounded-lg border border-[#333] text-[#999] hover:text-[#e0e0e0] disabled:opacity-50"
+					>
+						Send
+					</button>
+					<button type="button" onClick={() => setCommenting(false)} className="px-2 py-1.5 text-[#555] hover:text-[#999]">
+						Skip
+					</button>
+				</form>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import type { ToolCallRecord } from "@/lib/conversations/types";
+
+interface ToolCallCardProps {
+	toolCall: ToolCallRecord;
+	onDecision?: (approvalId: string, approved: boolean) => Promise<void>;
+}
+
+const APPROVAL_LABELS: Record<string, string> = {
+	approved: "Approved",
+	denied: "Denied",
+	expired: "Approval expired",
+};
+
+function formatDuration(ms?: number) {
+	if (ms === undefined) return "";
+	return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+export default function ToolCallCard({ toolCall, onDecision }: ToolCallCardProps) {
+	const [deciding, setDeciding] = useState(false);
+	const awaitingApproval = toolCall.approval === "pending";
+
+	const decide = async (approved: boolean) => {
+		if (!onDecision || !toolCall.approvalId) return;
+		setDeciding(true);
+		try {
+			await onDecision(toolCall.approvalId, approved);
+		} finally {
+			setDeciding(false);
+		}
+	};
+
+	const statusColor =
+		toolCall.status === "running"
+			? "bg-[var(--accent)] animate-pulse"
+			: toolCall.status === "error"
+			? "bg-red-500"
+			: "bg-[#22c55e]";
+
+	return (
+		<details
+			open={awaitingApproval || undefined}
+			className={`group mb-2 bg-[#141414] border rounded-lg text-xs ${
+				awaitingApproval ? "border-amber-500/50" : "border-[#252525]"
+			}`}
+		>
+			<summary className="flex items-center gap-2 px-3 py-2 cursor-pointer select-none list-none">
+				<span className={`w-2 h-2 rounded-full flex-shrink-0 ${statusColor}`} />
+				<span className="font-mono text-[#bbb] truncate">{toolCall.name}</span>
+				{toolCall.approval && toolCall.approval !== "pending" && (
+					<span className={toolCall.approval === "approved" ? "text-[#22c55e]" : "text-amber-500"}>
+						{APPROVAL_LABELS[toolCall.approval]}
+					</span>
+				)}
+				<span className="ml-auto text-[#555] flex-shrink-0">
+					{awaitingApproval
+						? "needs approval"
+						: toolCall.status === "running"
+						? "running…"
+						: formatDuration(toolCall.durationMs)}
+				</span>
+				<svg
+					width="12"
+					height="12"
+					viewBox="0 0 24 24"
+					fill="none"
+					stroke="#555"
+					strokeWidth="2"
+					className="flex-shrink-0 transition-transform group-open:rotate-180"
+				>
+					<path d="M6 9l6 6 6-6" />
+				</svg>
+			</summary>
+			<div className="px-3 pb-3 space-y-2 border-t border-[#252525] pt-2">
+				<div>
+					<p className="text-[#555] mb-1">Arguments</p>
+					<pre className="font-mono text-[#999] whitespace-pre-wrap break-all">
+						{toolCall.arguments ? JSON.stringify(toolCall.arguments, null, 2) : "(invalid JSON)"}
+					</pre>
+				</div>
+				{toolCall.result !== undefined && (
+					<div>
+						<p className="text-[#555] mb-1">Result</p>
+						<pre className="font-mono text-[#999] whitespace-pre-wrap break-all max-h-60 overflow-y-auto">
+							{toolCall.result}
+						</pre>
+					</div>
+				)}
+				{awaitingApproval && (
+					<div className="pt-1">
+						<p className="text-amber-500 mb-2">This action has real consequences. Do you want to run it?</p>
+						<div className="flex gap-2">
+							<button
+								onClick={() => decide(true)}
+								disabled={deciding || !onDecision || !toolCall.approvalId}
+								className="px-3 py-1.5 rounded-lg bg-[var(--accent)] text-white hover:bg-[var(--accent-hover)] transition-all disabled:opacity-50"
+							>
+								Approve
+							</button>
+							<button
+								onClick={() => decide(false)}
+								disabled={deciding || !onDecision || !toolCall.approvalId}
+								className="px-3 py-1.5 rounded-lg border border-[#333] text-[#999] hover:text-[#e0e0e0] hover:bg-[#1a1a1a] transition-all disabled:opacity-50"
+							>
+								Deny
+							</button>
+						</div>
+					</div>
+				)}
+				{toolCall.error && (
+					<div>
+						<p className="text-red-500 mb-1">Error</p>
+						<pre className="font-mono text-red-400 whitespace-pre-wrap break-all">{toolCall.error}</pre>
+					</div>
+				)}
+			</div>
+		</details>
+	);
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import type { Money, OrderCard, ProductCard, ReturnCard, StockStatus, ToolOutput } from "@/lib/tool-output";
+
+interface ToolOutputCardsProps {
+	output: ToolOutput;
+}
+
+const STOCK_LABELS: Record<StockStatus, { label: string; className: string }> = {
+	in_stock: { label: "In stock", className: "text-[#22c55e]" },
+	low_stock: { label: "Low stock", className: "text-amber-500" },
+	out_of_stock: { label: "Out of stock", className: "text-red-400" },
+};
+
+const cardClass = "bg-[#141414] border border-[#252525] rounded-lg text-xs";
+const linkClass = "text-[var(--accent)] hover:underline underline-offset-2";
+
+function formatMoney({ amount, currency }: Money) {
+	if (!currency) return amount.toFixed(2);
+	try {
+		return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+	} catch {
+		return `${amount.toFixed(2)} ${currency}`;
+	}
+}
+
+function formatDate(value?: string) {
+	if (!value) return null;
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+function isHttpUrl(value: string) {
+	return value.startsWith("https://") || value.startsWith("http://");
+}
+
+function ProductTile({ product }: { product: ProductCard }) {
+	const stock = product.stock && STOCK_LABELS[product.stock.status];
+	return (
+		<div className={`${cardClass} overflow-hidden flex flex-col`}>
+			{product.image && (
+				// eslint-disable-next-line @next/next/no-img-element -- third-party catalog images, not optimizable
+				<img src={product.image} alt={product.name} loading="lazy" className="h-28 w-full object-cover bg-[#0c0c0c]" />
+			)}
+			<div className="p-3 flex-1 flex flex-col gap-1">
+				<p className="text-[#e0e0e0] font-medium line-clamp-2">{product.name}</p>
+				{product.price && <p className="text-[#bbb]">{formatMoney(product.price)}</p>}
+				{stock && (
+					<p className={stock.className}>
+						{stock.label}
+						{product.stock?.quantity !== undefined && product.stock.status !== "out_of_stock" && ` · ${product.stock.quantity} left`}
+					</p>
+				)}
+				{product.url && (
+					<a href={product.url} target="_blank" rel="noopener noreferrer" className={`${linkClass} mt-auto pt-1`}>
+						View product
+					</a>
+				)}
+			</div>
+		</div>
+	);
+}
+
+function OrderPanel({ order }: { order: OrderCard }) {
+	return (
+		<div className={`${cardClass} p-3 space-y-3`}>
+			<div className="flex justify-between gap-2">
+				<div>
+					<p className="text-[#e0e0e0] font-medium">Order {order.id}</p>
+					{order.placedAt && <p className="text-[#555]">Placed {formatDate(order.placedAt)}</p>}
+				</div>
+				<div className="text-right">
+					<p className="text-[#bbb] capitalize">{order.status.replace(/_/g, " ")}</p>
+					{order.total && <p className="text-[#555]">{formatMoney(order.total)}</p>}
+				</div>
+			</div>
+
+			<ol className="flex items-start">
+				{order.timeline.map((step, i) => (
+					<li key={i} className="flex-1 flex flex-col items-center text-center min-w-0">
+						<div className="w-full flex items-center">
+							<span className={`flex-1 h-px ${i === 0 ? "invisible" : step.reached ? "bg-[var(--accent)]" : "bg-[#333]"}`} />
+							<span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${step.reached ? "bg-[var(--accent)]" : "bg-[#333]"}`} />
+							<span
+								className={`flex-1 h-px ${
+									i === order.timeline.length - 1 ? "invisible" : order.timeline[i + 1].reached ? "bg-[var(--accent)]" : "bg-[#333]"
+								}`}
+							/>
+						</div>
+						<span className={`mt-1 px-1 capitalize truncate max-w-full ${step.reached ? "text-[#bbb]" : "text-[#555]"}`}>
+							{step.status}
+						</span>
+						{step.at && <span className="text-[#555]">{formatDate(step.at)}</span>}
+					</li>
+				))}
+			</ol>
+
+			{order.items && (
+				<ul className="text-[#999] space-y-0.5">
+					{order.items.map((item, i) => (
+						<li key={i}>
+							{item.quantity !== undefined && `${item.quantity} × `}
+							{item.name}
+						</li>
+					))}
+				</ul>
+			)}
+
+			{order.tracking && (
+				<p className="text-[#999]">
+					{[order.tracking.carrier, order.tracking.number].filter(Boolean).join(" · ")}
+					{order.tracking.url && (
+						<a href={order.tracking.url} target="_blank" rel="noopener noreferrer" className={`${linkClass} ml-2`}>
+							Track package
+						</a>
+					)}
+				</p>
+			)}
+		</div>
+	);
+}
+
+function ReturnPanel({ item }: { item: ReturnCard }) {
+	return (
+		<div className={`${cardClass} p-3 space-y-1`}>
+			<div className="flex justify-between gap-2">
+				<p className="text-[#e0e0e0] font-medium">Return {item.id}</p>
+				<p className="text-[#bbb] capitalize">{item.status.replace(/_/g, " ")}</p>
+			</div>
+			{item.orderId && <p className="text-[#555]">For order {item.orderId}</p>}
+			{item.reason && <p className="text-[#999]">{item.reason}</p>}
+			{item.refund && <p className="text-[#bbb]">Refund {formatMoney(item.refund)}</p>}
+			{item.createdAt && <p className="text-[#555]">Requested {formatDate(item.createdAt)}</p>}
+			{item.labelUrl && (
+				<a href={item.labelUrl} target="_blank" rel="noopener noreferrer" className={linkClass}>
+					Download return label
+				</a>
+			)}
+		</div>
+	);
+}
+
+/** Renders the products, orders, returns, images and resources a tool returned. */
+export default function ToolOutputCards({ output }: ToolOutputCardsProps) {
+	const products = output.cards?.filter((card): card is ProductCard => card.kind === "product") ?? [];
+	const others = output.cards?.filter((card) => card.kind !== "product") ?? [];
+
+	return (
+		<div className="mb-2 space-y-2">
+			{products.length > 0 && (
+				<div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+					{products.map((product, i) => (
+						<ProductTile key={product.id ?? i} product={product} />
+					))}
+				</div>
+			)}
+			{others.map((card, i) =>
+				card.kind === "order" ? <OrderPanel key={i} order={card} /> : card.kind === "return" ? <ReturnPanel key={i} item={card} /> : null
+			)}
+			{output.images && (
+				<div className="flex flex-wrap gap-2">
+					{output.images.map((image, i) => (
+						// eslint-disable-next-line @next/next/no-img-element -- inline tool output, not optimizable
+						<img key={i} src={image.src} alt={image.alt ?? ""} className="h-32 max-w-[16rem] object-cover rounded-lg border border-[#252525]" />
+					))}
+				</div>
+			)}
+			{output.resources && (
+				<div className="flex flex-wrap gap-2">
+					{output.resources.map((resource, i) => {
+						const label = resource.name ?? resource.uri.split("/").pop() ?? resource.uri;
+						return isHttpUrl(resource.uri) ? (
+							<a
+								key={i}
+								href={resource.uri}
+								target="_blank"
+								rel="noopener noreferrer"
+								title={resource.preview}
+								className={`${cardClass} px-3 py-2 ${linkClass}`}
+							>
+								{label}
+							</a>
+						) : (
+							<span key={i} title={resource.preview ?? resource.uri} className={`${cardClass} px-3 py-2 text-[#999]`}>
+								{label}
+							</span>
+						);
+					})}
+				</div>
+			)}
+		</div>
+	);
+}
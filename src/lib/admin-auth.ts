@@ -0,0 +1,20 @@
+/**
+ * Checks `Authorization: Bearer <ADMIN_API_TOKEN>` on staff-only routes.
+ * Always fails when the token is not configured.
+ */
+export function isAdminRequest(request: Request): boolean {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) return false;
+
+  const header = request.headers.get("authorization") || "";
+  const provided = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+  return constantTimeEqual(provided, token);
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
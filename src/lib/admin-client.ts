@@ -0,0 +1,51 @@
+import type { ValidationErrorBody, ValidationIssue } from "@/lib/chat-contract";
+
+/**
+ * Browser side of the staff pages (/admin, /admin/quality and /agent): the
+ * admin token they share for the tab's session, and requests made with it.
+ */
+const TOKEN_STORAGE_KEY = "support_admin_token";
+
+/** The token was rejected; the page should ask for it again. */
+export class UnauthorizedError extends Error {}
+
+/** Any other failed request, with the field issues of a validation error. */
+export class AdminRequestError extends Error {
+  constructor(
+    message: string,
+    readonly issues: ValidationIssue[] = []
+  ) {
+    super(message);
+    this.name = "AdminRequestError";
+  }
+}
+
+export function getStoredToken(): string | null {
+  return sessionStorage.getItem(TOKEN_STORAGE_KEY);
+}
+
+export function storeToken(token: string) {
+  sessionStorage.setItem(TOKEN_STORAGE_KEY, token);
+}
+
+export function clearStoredToken() {
+  sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+}
+
+/** Calls a staff-only API route with `Authorization: Bearer <token>` and returns its JSON body. */
+export async function adminRequest<T>(path: string, token: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(init?.body !== undefined && { "Content-Type": "application/json" }),
+    },
+  });
+  if (response.status === 401) throw new UnauthorizedError("Wrong admin token");
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const error = body as ValidationErrorBody | null;
+    throw new AdminRequestError(error?.error || `HTTP ${response.status}: ${response.statusText}`, error?.issues);
+  }
+  return body as T;
+}
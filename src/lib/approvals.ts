@@ -0,0 +1,55 @@
+export type ApprovalDecision = "approved" | "denied" | "expired";
+
+interface PendingApproval {
+  clientId: string;
+  resolve: (decision: ApprovalDecision) => void;
+}
+
+// Kept on globalThis so the chat stream and the approvals route share one registry.
+const globalForApprovals = globalThis as typeof globalThis & { __pendingApprovals?: Map<string, PendingApproval> };
+const pending = (globalForApprovals.__pendingApprovals ??= new Map<string, PendingApproval>());
+
+/**
+ * Parks a tool call until the customer approves or denies it through
+ * `POST /api/chat/approvals/[id]`. Resolves to "expired" after `timeoutMs` and
+ * rejects if the chat request is aborted while waiting.
+ */
+export function waitForApproval(
+  id: string,
+  clientId: string,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<ApprovalDecision> {
+  return new Promise((resolve, reject) => {
+    const settle = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", onAbort);
+      pending.delete(id);
+    };
+    const onAbort = () => {
+      settle();
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      settle();
+      resolve("expired");
+    }, timeoutMs);
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    pending.set(id, {
+      clientId,
+      resolve: (decision) => {
+        settle();
+        resolve(decision);
+      },
+    });
+  });
+}
+
+/** Returns false when no approval with this ID is waiting for this client. */
+export function resolveApproval(id: string, clientId: string, approved: boolean): boolean {
+  const approval = pending.get(id);
+  if (!approval || approval.clientId !== clientId) return false;
+  approval.resolve(approved ? "approved" : "denied");
+  return true;
+}
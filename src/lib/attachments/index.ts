@@ -0,0 +1,30 @@
+import { extractText, getDocumentProxy } from "unpdf";
+import { getCloudflareEnv } from "@/lib/cloudflare";
+import { KvAttachmentStore } from "./kv-store";
+import { MemoryAttachmentStore } from "./memory-store";
+import type { AttachmentStore } from "./types";
+
+export type { AttachmentStore, StoredAttachment } from "./types";
+
+// Keeps a long statement from crowding the rest of the conversation out of the context window.
+const MAX_DOCUMENT_TEXT_LENGTH = 20_000;
+
+const globalForStore = globalThis as typeof globalThis & { __attachmentStore?: MemoryAttachmentStore };
+
+export function getAttachmentStore(): AttachmentStore {
+  const kv = getCloudflareEnv()?.ATTACHMENTS;
+  if (kv) return new KvAttachmentStore(kv);
+
+  globalForStore.__attachmentStore ??= new MemoryAttachmentStore();
+  return globalForStore.__attachmentStore;
+}
+
+/** Text of a PDF for the model; empty for scanned documents without a text layer. */
+export async function extractDocumentText(bytes: Uint8Array): Promise<string> {
+  const pdf = await getDocumentProxy(bytes);
+  const { text } = await extractText(pdf, { mergePages: true });
+  const trimmed = text.trim();
+  return trimmed.length > MAX_DOCUMENT_TEXT_LENGTH
+    ? `${trimmed.slice(0, MAX_DOCUMENT_TEXT_LENGTH)}… (truncated)`
+    : trimmed;
+}
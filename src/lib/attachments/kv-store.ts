@@ -0,0 +1,27 @@
+import { UNREFERENCED_TTL_SECONDS, type AttachmentStore, type StoredAttachment } from "./types";
+
+/** Cloudflare KV store; the largest attachment, base64-encoded, fits well under KV's 25 MiB value limit. */
+export class KvAttachmentStore implements AttachmentStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async put(clientId: string, attachment: StoredAttachment): Promise<void> {
+    await this.kv.put(this.key(clientId, attachment.ref.id), JSON.stringify(attachment), {
+      expirationTtl: UNREFERENCED_TTL_SECONDS,
+    });
+  }
+
+  async get(clientId: string, id: string): Promise<StoredAttachment | null> {
+    return this.kv.get<StoredAttachment>(this.key(clientId, id), "json");
+  }
+
+  async keep(clientId: string, attachments: StoredAttachment[]): Promise<void> {
+    // KV can only drop an expiration by writing the value again without one.
+    await Promise.all(
+      attachments.map((attachment) => this.kv.put(this.key(clientId, attachment.ref.id), JSON.stringify(attachment)))
+    );
+  }
+
+  private key(clientId: string, id: string) {
+    return `attachment:${clientId}:${id}`;
+  }
+}
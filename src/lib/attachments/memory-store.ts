@@ -0,0 +1,51 @@
+import { UNREFERENCED_TTL_SECONDS, type AttachmentStore, type StoredAttachment } from "./types";
+
+// The in-process store is for development; beyond this the oldest files are dropped.
+const MAX_TOTAL_BYTES = 200 * 1024 * 1024;
+
+export class MemoryAttachmentStore implements AttachmentStore {
+  private attachments = new Map<string, { attachment: StoredAttachment; expiresAt: number | null }>();
+  private totalBytes = 0;
+
+  async put(clientId: string, attachment: StoredAttachment): Promise<void> {
+    this.sweep();
+    this.set(`${clientId}:${attachment.ref.id}`, attachment, Date.now() + UNREFERENCED_TTL_SECONDS * 1000);
+    for (const key of this.attachments.keys()) {
+      if (this.totalBytes <= MAX_TOTAL_BYTES) break;
+      this.delete(key);
+    }
+  }
+
+  async get(clientId: string, id: string): Promise<StoredAttachment | null> {
+    const entry = this.attachments.get(`${clientId}:${id}`);
+    if (!entry || (entry.expiresAt !== null && entry.expiresAt <= Date.now())) return null;
+    return entry.attachment;
+  }
+
+  async keep(clientId: string, attachments: StoredAttachment[]): Promise<void> {
+    for (const { ref } of attachments) {
+      const entry = this.attachments.get(`${clientId}:${ref.id}`);
+      if (entry) entry.expiresAt = null;
+    }
+  }
+
+  private set(key: string, attachment: StoredAttachment, expiresAt: number | null) {
+    this.delete(key);
+    this.attachments.set(key, { attachment, expiresAt });
+    this.totalBytes += attachment.data.length;
+  }
+
+  private delete(key: string) {
+    const entry = this.attachments.get(key);
+    if (!entry) return;
+    this.attachments.delete(key);
+    this.totalBytes -= entry.attachment.data.length;
+  }
+
+  private sweep() {
+    const now = Date.now();
+    for (const [key, entry] of this.attachments) {
+      if (entry.expiresAt !== null && entry.expiresAt <= now) this.delete(key);
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import type { AttachmentRef } from "@/lib/conversations/types";
+
+/** How long an upload waits for the message it was attached to. */
+export const UNREFERENCED_TTL_SECONDS = 24 * 60 * 60;
+
+export interface StoredAttachment {
+  ref: AttachmentRef;
+  /** File contents, base64-encoded. */
+  data: string;
+}
+
+/**
+ * Uploaded files, scoped to the anonymous client that uploaded them. An
+ * upload expires unless a sent message references it, which `keep` records.
+ */
+export interface AttachmentStore {
+  put(clientId: string, attachment: StoredAttachment): Promise<void>;
+  get(clientId: string, id: string): Promise<StoredAttachment | null>;
+  /** Stops the attachments of a sent message from expiring. */
+  keep(clientId: string, attachments: StoredAttachment[]): Promise<void>;
+}
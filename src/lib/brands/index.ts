@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { TECHGEAR } from "./profiles";
+import { BrandConfigError, type BrandProfile, type PublicBrand } from "./types";
+
+export type { BrandProfile, BrandTheme, PublicBrand } from "./types";
+export { BrandConfigError } from "./types";
+
+// Top-level routes that a brand served at `/<id>` would be shadowed by.
+const RESERVED_IDS = ["admin", "agent", "api", "embed"];
+
+const color = z.string().regex(/^#[0-9a-f]{3,8}$/i, "Must be a hex color");
+
+const BrandProfileSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z][a-z0-9-]{0,31}$/, "Must be a lowercase identifier")
+    .refine((id) => !RESERVED_IDS.includes(id), "Is reserved for an app route"),
+  name: z.string().min(1),
+  title: z.string().min(1).optional(),
+  persona: z.string().min(1),
+  topics: z.array(z.string().min(1)).default([]),
+  mcpServers: z.array(z.string()).optional(),
+  defaultTone: z.string().default(TECHGEAR.defaultTone),
+  defaultLanguage: z.string().default(TECHGEAR.defaultLanguage),
+  theme: z.object({ accent: color, accentHover: color }).default(TECHGEAR.theme),
+  welcome: z.object({ heading: z.string().min(1), body: z.string() }).optional(),
+  suggestions: z.array(z.string().min(1)).default([]),
+  hosts: z.array(z.string().min(1)).optional(),
+  embedOrigins: z
+    .array(
+      z
+        .string()
+        .url()
+        .transform((url) => new URL(url).origin)
+    )
+    .optional(),
+});
+
+/**
+ * Reads `BRAND_PROFILES`, a JSON array of brand profiles. The first entry is
+ * the default for hosts no profile claims. Without it the app runs as TechGear.
+ */
+export function getBrandProfiles(): BrandProfile[] {
+  const raw = process.env.BRAND_PROFILES;
+  if (!raw) return [TECHGEAR];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new BrandConfigError("BRAND_PROFILES must be a JSON array of brand profiles");
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new BrandConfigError("BRAND_PROFILES must be a non-empty JSON array of brand profiles");
+  }
+
+  const ids = new Set<string>();
+  return parsed.map((entry, i) => {
+    const result = BrandProfileSchema.safeParse(entry);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new BrandConfigError(`BRAND_PROFILES[${i}].${issue.path.join(".")}: ${issue.message}`);
+    }
+    const profile = result.data;
+    if (ids.has(profile.id)) {
+      throw new BrandConfigError(`BRAND_PROFILES[${i}]: duplicate brand id "${profile.id}"`);
+    }
+    ids.add(profile.id);
+    return {
+      ...profile,
+      title: profile.title ?? `${profile.name.toLowerCase()} support`,
+      welcome: profile.welcome ?? { heading: TECHGEAR.welcome.heading, body: `Ask anything related to ${profile.name}.` },
+      hosts: profile.hosts?.map((host) => host.toLowerCase()),
+    };
+  });
+}
+
+/**
+ * Picks the brand for a request. An explicit id (from the path, an embed
+ * `?brand=` parameter or the chat request) must name a known profile and
+ * returns null otherwise; without one the hostname decides, then the default.
+ */
+export function resolveBrand({ id, host }: { id?: string | null; host?: string | null }): BrandProfile | null {
+  const profiles = getBrandProfiles();
+  if (id) return profiles.find((profile) => profile.id === id) ?? null;
+
+  const hostname = host?.split(":")[0].toLowerCase();
+  return (hostname && profiles.find((profile) => profile.hosts?.includes(hostname))) || profiles[0];
+}
+
+export function toPublicBrand(profile: BrandProfile): PublicBrand {
+  const { id, name, title, defaultTone, defaultLanguage, theme, welcome, suggestions, embedOrigins } = profile;
+  return { id, name, title, defaultTone, defaultLanguage, theme, welcome, suggestions, embedOrigins };
+}
@@ -0,0 +1,31 @@
+import type { BrandProfile } from "./types";
+
+/** Used when BRAND_PROFILES is not set. */
+export const TECHGEAR: BrandProfile = {
+  id: "techgear",
+  name: "TechGear",
+  title: "techgear support",
+  persona:
+    "You are a helpful customer support agent for TechGear, a company that sells computer products including monitors, printers, keyboards, mice, and other peripherals.",
+  topics: [
+    "Product information and recommendations",
+    "Order status and tracking",
+    "Returns and refunds",
+    "Technical support",
+    "General inquiries",
+  ],
+  defaultTone: "professional",
+  defaultLanguage: "en",
+  theme: { accent: "#2563eb", accentHover: "#1d4ed8" },
+  welcome: {
+    heading: "How can I help you today?",
+    body: "Ask about our products, check order status, get technical support, or anything else related to TechGear.",
+  },
+  suggestions: [
+    "What products do you have?",
+    "I need help with my order",
+    "What's your return policy?",
+    "Do you have monitors in stock?",
+    "I need technical support",
+  ],
+};
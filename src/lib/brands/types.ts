@@ -0,0 +1,36 @@
+export interface BrandTheme {
+  /** Accent color for the customer's bubbles, buttons and status indicators. */
+  accent: string;
+  accentHover: string;
+}
+
+/** One storefront the assistant can answer for. */
+export interface BrandProfile {
+  id: string;
+  name: string;
+  /** Header text in the chat window. */
+  title: string;
+  /** Opening line of the system prompt. */
+  persona: string;
+  /** Subjects the assistant offers help with, listed in the system prompt. */
+  topics: string[];
+  /** Names from MCP_SERVERS this brand may use; omitted means every server. */
+  mcpServers?: string[];
+  defaultTone: string;
+  defaultLanguage: string;
+  theme: BrandTheme;
+  welcome: { heading: string; body: string };
+  suggestions: string[];
+  /** Hostnames (without port) that select this brand. */
+  hosts?: string[];
+  /** Origins (`https://shop.example.com`) allowed to embed the chat widget; omitted means any site. */
+  embedOrigins?: string[];
+}
+
+/** The part of a profile the browser needs; persona, topics and servers stay on the server. */
+export type PublicBrand = Pick<
+  BrandProfile,
+  "id" | "name" | "title" | "defaultTone" | "defaultLanguage" | "theme" | "welcome" | "suggestions" | "embedOrigins"
+>;
+
+export class BrandConfigError extends Error {}
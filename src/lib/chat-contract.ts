@@ -0,0 +1,194 @@
+import { z } from "zod";
+
+/**
+ * Request contract for `POST /api/chat`, shared by the route and the page so
+ * the settings dropdown and the server-side allowlist cannot drift apart.
+ */
+
+export const MODEL_OPTIONS = [
+  { value: "gpt-5.2", label: "GPT-5.2" },
+  { value: "gpt-5-mini", label: "GPT-5-mini" },
+  { value: "gpt-5-nano", label: "GPT-5-nano" },
+] as const;
+
+export type ChatModel = (typeof MODEL_OPTIONS)[number]["value"];
+
+export const DEFAULT_MODEL: ChatModel = "gpt-5.2";
+
+/** Response header naming the reply stream, to resume or stop it at `/api/chat/streams/[id]`. */
+export const STREAM_ID_HEADER = "X-Chat-Stream-Id";
+
+export const CHAT_LIMITS = {
+  maxMessages: 50,
+  maxMessageLength: 8000,
+  maxTotalLength: 64000,
+  maxBodyBytes: 256 * 1024,
+};
+
+export const ATTACHMENT_LIMITS = {
+  maxPerMessage: 4,
+  maxImageBytes: 5 * 1024 * 1024,
+  maxDocumentBytes: 10 * 1024 * 1024,
+  imageTypes: ["image/png", "image/jpeg", "image/webp", "image/gif"],
+  documentTypes: ["application/pdf"],
+};
+
+/** Reason a file cannot be attached, or null if it is within the limits. */
+export function checkAttachment(file: { type: string; size: number }): string | null {
+  const isImage = ATTACHMENT_LIMITS.imageTypes.includes(file.type);
+  if (!isImage && !ATTACHMENT_LIMITS.documentTypes.includes(file.type)) {
+    return "Only PNG, JPEG, WebP and GIF images and PDF documents can be attached";
+  }
+  const maxBytes = isImage ? ATTACHMENT_LIMITS.maxImageBytes : ATTACHMENT_LIMITS.maxDocumentBytes;
+  if (file.size > maxBytes) {
+    return `${isImage ? "Images" : "Documents"} cannot be larger than ${maxBytes / (1024 * 1024)} MB`;
+  }
+  return null;
+}
+
+const MODEL_VALUES = MODEL_OPTIONS.map((m) => m.value) as [ChatModel, ...ChatModel[]];
+
+const content = z
+  .string()
+  .trim()
+  .min(1, "Message cannot be empty")
+  .max(CHAT_LIMITS.maxMessageLength, `Message cannot be longer than ${CHAT_LIMITS.maxMessageLength} characters`);
+
+const chatMessage = z.object({
+  role: z.enum(["user", "assistant"], {
+    errorMap: (issue, ctx) =>
+      ctx.data === "system"
+        ? { message: "System messages cannot be sent by the client" }
+        : { message: issue.message ?? ctx.defaultError },
+  }),
+  content,
+});
+
+/** Text and attachments (uploaded first via `POST /api/attachments`) of one message. */
+const messagePart = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text"), text: content }).strict(),
+  z.object({ type: z.literal("attachment"), attachmentId: z.string().uuid("Must be an attachment ID") }).strict(),
+]);
+
+export type MessagePart = z.infer<typeof messagePart>;
+
+// A plain string is shorthand for a single text part.
+const messageContent = z.preprocess(
+  (value) => (typeof value === "string" ? [{ type: "text", text: value }] : value),
+  z
+    .array(messagePart)
+    .min(1, "Message cannot be empty")
+    .refine(
+      (parts) => parts.filter((p) => p.type === "attachment").length <= ATTACHMENT_LIMITS.maxPerMessage,
+      `Cannot attach more than ${ATTACHMENT_LIMITS.maxPerMessage} files to a message`
+    )
+);
+
+/**
+ * What the page embedding the chat widget knows about the customer. It comes
+ * from the host page, so the assistant treats it as unverified.
+ */
+export const HostContextSchema = z
+  .object({
+    customerId: z.string().trim().min(1).max(100).optional(),
+    /** SKU of the product page the customer is on. */
+    sku: z.string().trim().min(1).max(100).optional(),
+    pageUrl: z.string().url("Must be a URL").max(2000).optional(),
+    cart: z
+      .array(
+        z.object({
+          sku: z.string().trim().min(1).max(100),
+          name: z.string().max(200).optional(),
+          quantity: z.number().int().positive().max(999),
+          price: z.number().nonnegative().optional(),
+        })
+      )
+      .max(50, "Cannot describe more than 50 cart items")
+      .optional(),
+  })
+  .strict();
+
+export type HostContext = z.infer<typeof HostContextSchema>;
+
+const settingKey = z
+  .string()
+  .regex(/^[a-z][a-z0-9_-]{0,31}$/i, "Must be a short identifier");
+
+export const ChatRequestSchema = z
+  .object({
+    conversationId: z.string().uuid("Must be a conversation ID").optional(),
+    message: messageContent.optional(),
+    messages: z
+      .array(chatMessage)
+      .max(CHAT_LIMITS.maxMessages, `Cannot send more than ${CHAT_LIMITS.maxMessages} messages`)
+      .optional(),
+    model: z
+      .enum(MODEL_VALUES, { errorMap: () => ({ message: `Must be one of: ${MODEL_VALUES.join(", ")}` }) })
+      .default(DEFAULT_MODEL),
+    /** Brand profile id; defaults to the brand for the request's hostname. */
+    brand: settingKey.optional(),
+    /** Default to the brand's tone and language. */
+    tone: settingKey.optional(),
+    language: settingKey.optional(),
+    context: HostContextSchema.optional(),
+  })
+  .strict()
+  .superRefine((request, ctx) => {
+    if (request.conversationId && !request.message) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["message"], message: "Required when conversationId is set" });
+    }
+    if (!request.conversationId && !request.messages?.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["messages"], message: "Send conversationId and message, or messages" });
+    }
+    const totalLength = (request.messages || []).reduce((sum, m) => sum + m.content.length, 0);
+    if (totalLength > CHAT_LIMITS.maxTotalLength) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["messages"],
+        message: `Conversation is too long (${totalLength} of ${CHAT_LIMITS.maxTotalLength} characters)`,
+      });
+    }
+  });
+
+export type ChatRequest = z.infer<typeof ChatRequestSchema>;
+
+/**
+ * Body of `POST /api/conversations/[id]/messages`, which saves the customer's
+ * messages while a human agent has the chat. Only the customer's own turns
+ * can be added, within the same limits as a chat request.
+ */
+export const AppendMessagesSchema = z
+  .object({
+    messages: z
+      .array(
+        z.object({
+          role: z.literal("user", { errorMap: () => ({ message: "Only user messages can be added" }) }),
+          content,
+        })
+      )
+      .min(1, "Send at least one message")
+      .max(CHAT_LIMITS.maxMessages, `Cannot send more than ${CHAT_LIMITS.maxMessages} messages`),
+  })
+  .strict()
+  .refine((body) => body.messages.reduce((sum, m) => sum + m.content.length, 0) <= CHAT_LIMITS.maxTotalLength, {
+    path: ["messages"],
+    message: `Messages cannot be longer than ${CHAT_LIMITS.maxTotalLength} characters in total`,
+  });
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+/** Body of a 400 response from the chat API. */
+export interface ValidationErrorBody {
+  error: string;
+  issues?: ValidationIssue[];
+}
+
+export function toValidationIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.join(".") || "body",
+    message: issue.message,
+  }));
+}
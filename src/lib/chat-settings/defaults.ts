@@ -0,0 +1,49 @@
+import type { ChatSettings } from "./types";
+
+export const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+  tones: [
+    {
+      id: "professional",
+      label: "Professional",
+      prompt: "Respond in a professional, formal manner. Be courteous and efficient.",
+    },
+    {
+      id: "friendly",
+      label: "Friendly",
+      prompt: "Be warm, friendly, and conversational. Use a casual but helpful tone.",
+    },
+    {
+      id: "concise",
+      label: "Concise",
+      prompt: "Keep responses brief and to the point. Avoid unnecessary elaboration.",
+    },
+  ],
+  languages: [
+    { code: "en", label: "English", name: "English", enabled: true },
+    { code: "es", label: "Español", name: "Spanish", enabled: true },
+    { code: "fr", label: "Français", name: "French", enabled: true },
+    { code: "de", label: "Deutsch", name: "German", enabled: true },
+    { code: "pt", label: "Português", name: "Portuguese", enabled: true },
+    { code: "zh", label: "中文", name: "Chinese", enabled: true },
+    { code: "ja", label: "日本語", name: "Japanese", enabled: true },
+    { code: "ko", label: "한국어", name: "Korean", enabled: true },
+    { code: "ar", label: "العربية", name: "Arabic", enabled: true },
+  ],
+  templates: [
+    {
+      id: "support",
+      name: "Customer support",
+      body: `{{persona}}
+
+{{tone}}
+
+IMPORTANT: Always respond in {{language}}. The customer prefers {{language}}.
+
+Your job is to help customers with:
+{{topics}}
+
+Use the available tools to look up information when needed. Always be helpful and provide accurate information.`,
+    },
+  ],
+  activeTemplate: "support",
+};
@@ -0,0 +1,67 @@
+import { getCloudflareEnv } from "@/lib/cloudflare";
+import { DEFAULT_CHAT_SETTINGS } from "./defaults";
+import { KvSettingsStore } from "./kv-store";
+import { MemorySettingsStore } from "./memory-store";
+import type { ChatSettings, PublicChatSettings, SettingsStore, SettingsVersion } from "./types";
+
+export { DEFAULT_CHAT_SETTINGS } from "./defaults";
+export { ChatSettingsSchema } from "./schema";
+export { TEMPLATE_VARIABLES, renderPromptTemplate } from "./template";
+export type {
+  ChatSettings,
+  LanguageOption,
+  PromptTemplate,
+  PublicChatSettings,
+  SettingsStore,
+  SettingsVersion,
+  SettingsVersionSummary,
+  ToneOption,
+} from "./types";
+
+const globalForStore = globalThis as typeof globalThis & { __settingsStore?: MemorySettingsStore };
+
+export function getSettingsStore(): SettingsStore {
+  const kv = getCloudflareEnv()?.CHAT_SETTINGS;
+  if (kv) return new KvSettingsStore(kv);
+
+  globalForStore.__settingsStore ??= new MemorySettingsStore();
+  return globalForStore.__settingsStore;
+}
+
+const DEFAULT_VERSION: SettingsVersion = {
+  version: 0,
+  createdAt: 0,
+  note: "Built-in defaults",
+  settings: DEFAULT_CHAT_SETTINGS,
+};
+
+/** The live settings, or the built-in defaults until an admin saves a version. */
+export async function getCurrentSettings(): Promise<SettingsVersion> {
+  return (await getSettingsStore().getCurrent()) ?? DEFAULT_VERSION;
+}
+
+export async function getChatSettings(): Promise<ChatSettings> {
+  return (await getCurrentSettings()).settings;
+}
+
+/** A saved version, or the built-in defaults for version 0. */
+export async function getSettingsVersion(version: number): Promise<SettingsVersion | null> {
+  return version === 0 ? DEFAULT_VERSION : getSettingsStore().getVersion(version);
+}
+
+/**
+ * Restores an earlier version by saving a copy of it as the newest one, so
+ * the rollback itself shows up in the history. Version 0 restores the defaults.
+ */
+export async function rollbackSettings(version: number): Promise<SettingsVersion | null> {
+  const target = await getSettingsVersion(version);
+  if (!target) return null;
+  return getSettingsStore().save(target.settings, `Rolled back to version ${version}`);
+}
+
+export function toPublicSettings(settings: ChatSettings): PublicChatSettings {
+  return {
+    tones: settings.tones.map(({ id, label }) => ({ id, label })),
+    languages: settings.languages.filter((l) => l.enabled).map(({ code, label }) => ({ code, label })),
+  };
+}
@@ -0,0 +1,47 @@
+import type { ChatSettings, SettingsStore, SettingsVersion, SettingsVersionSummary } from "./types";
+
+const CURRENT_KEY = "settings:current";
+const VERSION_PREFIX = "settings:version:";
+
+/**
+ * Cloudflare KV store keeping every version under its own key, with the
+ * summary in key metadata so the history lists without reading each value.
+ * Two admins saving at once can claim the same number; the later write wins.
+ */
+export class KvSettingsStore implements SettingsStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async getCurrent(): Promise<SettingsVersion | null> {
+    const current = await this.kv.get(CURRENT_KEY);
+    return current ? this.getVersion(Number(current)) : null;
+  }
+
+  async getVersion(version: number): Promise<SettingsVersion | null> {
+    return this.kv.get<SettingsVersion>(versionKey(version), "json");
+  }
+
+  async listVersions(): Promise<SettingsVersionSummary[]> {
+    const summaries: SettingsVersionSummary[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list<SettingsVersionSummary>({ prefix: VERSION_PREFIX, cursor });
+      for (const key of page.keys) if (key.metadata) summaries.push(key.metadata);
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return summaries.sort((a, b) => b.version - a.version);
+  }
+
+  async save(settings: ChatSettings, note?: string): Promise<SettingsVersion> {
+    const current = Number((await this.kv.get(CURRENT_KEY)) || 0);
+    const saved: SettingsVersion = { version: current + 1, createdAt: Date.now(), note, settings };
+    const summary: SettingsVersionSummary = { version: saved.version, createdAt: saved.createdAt, note };
+    await this.kv.put(versionKey(saved.version), JSON.stringify(saved), { metadata: summary });
+    await this.kv.put(CURRENT_KEY, String(saved.version));
+    return saved;
+  }
+}
+
+// Zero-padded so keys list in version order.
+function versionKey(version: number): string {
+  return `${VERSION_PREFIX}${String(version).padStart(8, "0")}`;
+}
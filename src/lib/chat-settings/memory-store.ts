@@ -0,0 +1,23 @@
+import type { ChatSettings, SettingsStore, SettingsVersion, SettingsVersionSummary } from "./types";
+
+export class MemorySettingsStore implements SettingsStore {
+  private versions: SettingsVersion[] = [];
+
+  async getCurrent(): Promise<SettingsVersion | null> {
+    return this.versions.at(-1) ?? null;
+  }
+
+  async getVersion(version: number): Promise<SettingsVersion | null> {
+    return this.versions.find((v) => v.version === version) ?? null;
+  }
+
+  async listVersions(): Promise<SettingsVersionSummary[]> {
+    return this.versions.map(({ version, createdAt, note }) => ({ version, createdAt, note })).reverse();
+  }
+
+  async save(settings: ChatSettings, note?: string): Promise<SettingsVersion> {
+    const saved: SettingsVersion = { version: this.versions.length + 1, createdAt: Date.now(), note, settings };
+    this.versions.push(saved);
+    return saved;
+  }
+}
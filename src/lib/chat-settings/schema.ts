@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { getBrandProfiles } from "@/lib/brands";
+import { findUnknownVariables } from "./template";
+
+const id = z.string().regex(/^[a-z][a-z0-9_-]{0,31}$/i, "Must be a short identifier");
+
+function unique<T>(items: T[], key: (item: T) => string, ctx: z.RefinementCtx, path: string) {
+  const seen = new Set<string>();
+  items.forEach((item, i) => {
+    if (seen.has(key(item))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path, i], message: `Duplicate id "${key(item)}"` });
+    }
+    seen.add(key(item));
+  });
+}
+
+/** Validates settings submitted from /admin before they become a new version. */
+export const ChatSettingsSchema = z
+  .object({
+    tones: z
+      .array(z.object({ id, label: z.string().trim().min(1), prompt: z.string().trim().min(1) }).strict())
+      .min(1, "Add at least one tone"),
+    languages: z
+      .array(
+        z
+          .object({
+            code: id,
+            label: z.string().trim().min(1),
+            name: z.string().trim().min(1),
+            enabled: z.boolean(),
+          })
+          .strict()
+      )
+      .refine((languages) => languages.some((l) => l.enabled), "Enable at least one language"),
+    templates: z
+      .array(
+        z
+          .object({
+            id,
+            name: z.string().trim().min(1),
+            body: z
+              .string()
+              .trim()
+              .min(1)
+              .superRefine((body, ctx) => {
+                const unknown = findUnknownVariables(body);
+                if (unknown.length > 0) {
+                  ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown variables: ${unknown.join(", ")}` });
+                }
+              }),
+          })
+          .strict()
+      )
+      .min(1, "Add at least one template"),
+    activeTemplate: id,
+  })
+  .strict()
+  .superRefine((settings, ctx) => {
+    unique(settings.tones, (t) => t.id, ctx, "tones");
+    unique(settings.languages, (l) => l.code, ctx, "languages");
+    unique(settings.templates, (t) => t.id, ctx, "templates");
+    if (!settings.templates.some((t) => t.id === settings.activeTemplate)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["activeTemplate"], message: "Must be the id of a template" });
+    }
+    // New chats start on their brand's defaults, so those must stay available.
+    for (const brand of getBrandProfiles()) {
+      if (!settings.tones.some((t) => t.id === brand.defaultTone)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["tones"],
+          message: `Keep the tone "${brand.defaultTone}", the default of brand "${brand.id}"`,
+        });
+      }
+      if (!settings.languages.some((l) => l.enabled && l.code === brand.defaultLanguage)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["languages"],
+          message: `Keep the language "${brand.defaultLanguage}" enabled, the default of brand "${brand.id}"`,
+        });
+      }
+    }
+  });
@@ -0,0 +1,22 @@
+export const TEMPLATE_VARIABLES = {
+  brand: "Brand name",
+  persona: "The brand's persona prompt",
+  topics: "The brand's topics as a bulleted list",
+  tone: "Instruction for the selected tone",
+  language: "English name of the selected language",
+} as const;
+
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+/** Placeholders in `body` that are not template variables. */
+export function findUnknownVariables(body: string): string[] {
+  return [...body.matchAll(PLACEHOLDER)].map((match) => match[1]).filter((name) => !(name in TEMPLATE_VARIABLES));
+}
+
+export function renderPromptTemplate(body: string, values: Record<TemplateVariable, string>): string {
+  return body.replace(PLACEHOLDER, (placeholder, name: string) =>
+    name in values ? values[name as TemplateVariable] : placeholder
+  );
+}
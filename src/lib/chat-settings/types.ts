@@ -0,0 +1,57 @@
+export interface ToneOption {
+  id: string;
+  label: string;
+  /** Instruction inserted into the system prompt as {{tone}}. */
+  prompt: string;
+}
+
+export interface LanguageOption {
+  code: string;
+  /** Shown in the settings panel, in the language itself. */
+  label: string;
+  /** English name inserted into the system prompt as {{language}}. */
+  name: string;
+  enabled: boolean;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  /** System prompt with {{variable}} placeholders, see TEMPLATE_VARIABLES. */
+  body: string;
+}
+
+/** Everything staff can edit from /admin. */
+export interface ChatSettings {
+  tones: ToneOption[];
+  languages: LanguageOption[];
+  templates: PromptTemplate[];
+  /** Id of the template used for every chat. */
+  activeTemplate: string;
+}
+
+export interface SettingsVersionSummary {
+  /** Increments with every save; 0 is the built-in defaults. */
+  version: number;
+  createdAt: number;
+  note?: string;
+}
+
+export interface SettingsVersion extends SettingsVersionSummary {
+  settings: ChatSettings;
+}
+
+/** Options for the settings panel; prompts stay on the server. */
+export interface PublicChatSettings {
+  tones: Array<Pick<ToneOption, "id" | "label">>;
+  languages: Array<Pick<LanguageOption, "code" | "label">>;
+}
+
+/** Append-only history of settings; the newest version is the live one. */
+export interface SettingsStore {
+  getCurrent(): Promise<SettingsVersion | null>;
+  getVersion(version: number): Promise<SettingsVersion | null>;
+  /** Newest first. */
+  listVersions(): Promise<SettingsVersionSummary[]>;
+  save(settings: ChatSettings, note?: string): Promise<SettingsVersion>;
+}
@@ -0,0 +1,150 @@
+import { STREAM_ID_HEADER } from "@/lib/chat-contract";
+
+// How long a generation keeps running with nobody reading it, waiting for the
+// client to resume, and how long a finished one can still be replayed.
+const RESUME_WINDOW_MS = 60_000;
+const RETENTION_MS = 5 * 60_000;
+const HEARTBEAT_MS = 25_000;
+
+interface BufferedStream {
+  clientId: string;
+  /** Serialized events; an event's SSE id is its 1-based position. */
+  events: string[];
+  done: boolean;
+  /** One flush function per open response. */
+  readers: Set<() => void>;
+  cancel: () => void;
+  orphanTimer?: ReturnType<typeof setTimeout>;
+}
+
+export interface ChatStreamWriter {
+  id: string;
+  send: (data: Record<string, unknown>) => void;
+  /** Marks the generation finished; open responses close once they have sent everything. */
+  end: () => void;
+  /** The response for the request that started the generation. */
+  respond: (signal: AbortSignal) => Response;
+}
+
+// Kept on globalThis so the chat route and the resume route share one registry.
+// Like tool approvals, a stream can only be resumed on the instance running it.
+const globalForStreams = globalThis as typeof globalThis & { __chatStreams?: Map<string, BufferedStream> };
+const streams = (globalForStreams.__chatStreams ??= new Map<string, BufferedStream>());
+
+function toResponse(id: string, stream: BufferedStream, lastEventId: number, signal: AbortSignal): Response {
+  const encoder = new TextEncoder();
+  let sent = Math.min(Math.max(lastEventId, 0), stream.events.length);
+  let detach = () => {};
+
+  const body = new ReadableStream({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          detach();
+        }
+      };
+      const close = () => {
+        detach();
+        try {
+          controller.close();
+        } catch {
+          // Already closed.
+        }
+      };
+      const flush = () => {
+        while (sent < stream.events.length) {
+          sent++;
+          write(`id: ${sent}\ndata: ${stream.events[sent - 1]}\n\n`);
+        }
+        if (stream.done) close();
+      };
+      const heartbeat = setInterval(() => write(": keep-alive\n\n"), HEARTBEAT_MS);
+
+      detach = () => {
+        clearInterval(heartbeat);
+        if (!stream.readers.delete(flush)) return;
+        // Nobody is reading any more: give the client a window to resume before stopping the generation.
+        if (stream.readers.size === 0 && !stream.done) {
+          stream.orphanTimer = setTimeout(stream.cancel, RESUME_WINDOW_MS);
+        }
+      };
+
+      clearTimeout(stream.orphanTimer);
+      stream.readers.add(flush);
+      // A request aborted before it was answered never fires "abort" again.
+      if (signal.aborted) return close();
+      signal.addEventListener("abort", close, { once: true });
+      flush();
+    },
+    cancel() {
+      detach();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      [STREAM_ID_HEADER]: id,
+    },
+  });
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Buffers a chat generation under a stream ID: the one the client asked for,
+ * so it can stop the reply before the response arrives, or a new one when
+ * that is not a UUID or is taken. Events are sent with SSE ids so a client
+ * whose connection drops can pick up from `Last-Event-ID` through
+ * `resumeChatStream`. `cancel` stops the generation; it is called on
+ * `cancelChatStream` or when no client resumes within the resume window.
+ */
+export function createChatStream(clientId: string, cancel: () => void, requestedId?: string | null): ChatStreamWriter {
+  const id = requestedId && UUID_PATTERN.test(requestedId) && !streams.has(requestedId) ? requestedId : crypto.randomUUID();
+  const stream: BufferedStream = { clientId, events: [], done: false, readers: new Set(), cancel };
+  streams.set(id, stream);
+
+  const notify = () => {
+    for (const flush of [...stream.readers]) flush();
+  };
+
+  return {
+    id,
+    send(data) {
+      if (stream.done) return;
+      stream.events.push(JSON.stringify(data));
+      notify();
+    },
+    end() {
+      if (stream.done) return;
+      stream.done = true;
+      clearTimeout(stream.orphanTimer);
+      notify();
+      setTimeout(() => streams.delete(id), RETENTION_MS);
+    },
+    respond: (signal) => toResponse(id, stream, 0, signal),
+  };
+}
+
+/**
+ * Replays the events after `lastEventId` and follows the stream until it ends.
+ * Returns null when this client has no stream with this ID, or it expired.
+ */
+export function resumeChatStream(id: string, clientId: string, lastEventId: string | null, signal: AbortSignal): Response | null {
+  const stream = streams.get(id);
+  if (!stream || stream.clientId !== clientId) return null;
+  const after = parseInt(lastEventId || "", 10);
+  return toResponse(id, stream, Number.isFinite(after) ? after : 0, signal);
+}
+
+/** Stops a running generation. Returns false when this client has no stream with this ID. */
+export function cancelChatStream(id: string, clientId: string): boolean {
+  const stream = streams.get(id);
+  if (!stream || stream.clientId !== clientId) return false;
+  if (!stream.done) stream.cancel();
+  return true;
+}
@@ -0,0 +1,46 @@
+import { cookies } from "next/headers";
+import type { NextRequest, NextResponse } from "next/server";
+
+const CLIENT_ID_COOKIE = "support_client_id";
+const EMBED_CLIENT_ID_COOKIE = "support_embed_client_id";
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+/**
+ * Identifies the browser behind a request with an anonymous, httpOnly cookie,
+ * issuing one on first use. Stored conversations are scoped to this ID.
+ * Inside the embedded widget the first-party cookie is not sent, so the ID
+ * comes from the embed cookie that `issueEmbedClientId` sets on `/embed`.
+ */
+export async function getClientId(): Promise<string> {
+  const store = await cookies();
+  const existing = store.get(CLIENT_ID_COOKIE)?.value ?? store.get(EMBED_CLIENT_ID_COOKIE)?.value;
+  if (existing) return existing;
+
+  const clientId = crypto.randomUUID();
+  store.set(CLIENT_ID_COOKIE, clientId, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NEXTJS_ENV === "production",
+    path: "/",
+    maxAge: ONE_YEAR_SECONDS,
+  });
+  return clientId;
+}
+
+/**
+ * Sets the client ID cookie for the chat framed on a storefront. Browsers only
+ * send cookies to a cross-site frame when they are `SameSite=None; Secure`,
+ * and `Partitioned` keeps one per embedding site so it works where
+ * third-party cookies are blocked. The first-party cookie stays `Lax`.
+ */
+export function issueEmbedClientId(request: NextRequest, response: NextResponse): void {
+  if (request.cookies.has(EMBED_CLIENT_ID_COOKIE)) return;
+  response.cookies.set(EMBED_CLIENT_ID_COOKIE, request.cookies.get(CLIENT_ID_COOKIE)?.value ?? crypto.randomUUID(), {
+    httpOnly: true,
+    sameSite: "none",
+    secure: true,
+    partitioned: true,
+    path: "/",
+    maxAge: ONE_YEAR_SECONDS,
+  });
+}
@@ -0,0 +1,12 @@
+/**
+ * Returns the Worker bindings when running under OpenNext on Cloudflare, or
+ * undefined under `next dev` / plain Node. OpenNext publishes the request
+ * context on this global symbol; it is the same lookup `getCloudflareContext`
+ * performs.
+ */
+export function getCloudflareEnv(): Partial<CloudflareEnv> | undefined {
+  const context = (globalThis as Record<symbol, unknown>)[Symbol.for("__cloudflare-context__")] as
+    | { env?: CloudflareEnv }
+    | undefined;
+  return context?.env;
+}
@@ -0,0 +1,139 @@
+import type { ChatModel } from "@/lib/chat-contract";
+import type { HistorySummary } from "@/lib/conversations";
+import { resolveModel, type ChatMessage } from "@/lib/llm";
+import { logger } from "@/lib/logger";
+import { countMessageTokens, countTokens, MODEL_CONFIG } from "@/lib/models";
+import type { UsageLedger } from "@/lib/usage";
+
+const DEFAULT_SUMMARY_MODEL = "gpt-5-nano";
+// Share of the budget kept verbatim when older turns have to be condensed.
+const RECENT_HISTORY_SHARE = 0.5;
+
+interface HistoryMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+interface FitHistoryOptions {
+  model: ChatModel;
+  messages: HistoryMessage[];
+  summary?: HistorySummary;
+  signal?: AbortSignal;
+  /** Receives the usage of the summarization call, if one is made. */
+  usage?: UsageLedger;
+}
+
+interface FitHistoryResult {
+  messages: ChatMessage[];
+  summary?: HistorySummary;
+  /** Messages condensed into the summary (or dropped, if summarizing failed) on this turn. */
+  condensed: number;
+  summaryFailed?: boolean;
+}
+
+function getHistoryTokenBudget(model: ChatModel): number {
+  const parsed = parseInt(process.env.CONTEXT_TOKEN_BUDGET || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : MODEL_CONFIG[model].historyTokenBudget;
+}
+
+function summaryMessage(summary: HistorySummary): ChatMessage {
+  return {
+    role: "system",
+    content: `Summary of the earlier conversation (older messages are not shown):\n${summary.content}`,
+  };
+}
+
+/**
+ * Index of the first message kept verbatim: the earliest user turn whose
+ * suffix fits in `budget`, or the last message if even that does not fit.
+ */
+function findRecentStart(model: ChatModel, messages: HistoryMessage[], budget: number): number {
+  let start = messages.length - 1;
+  let tokens = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    tokens += countMessageTokens(model, [messages[i]]);
+    if (tokens > budget) break;
+    if (messages[i].role === "user") start = i;
+  }
+  return start;
+}
+
+async function summarize(
+  previous: HistorySummary | undefined,
+  messages: HistoryMessage[],
+  signal?: AbortSignal,
+  usage?: UsageLedger
+): Promise<string> {
+  const transcript = messages.map((m) => `${m.role === "user" ? "Customer" : "Agent"}: ${m.content}`).join("\n\n");
+  const model = process.env.SUMMARY_MODEL || DEFAULT_SUMMARY_MODEL;
+  const { provider, upstreamModel } = resolveModel(model);
+  const response = await provider.complete({
+    model: upstreamModel,
+    signal,
+    messages: [
+      {
+        role: "system",
+        content:
+          "You condense customer support conversations. Write a compact summary that keeps every order number, product, customer detail, open question and promise made by the agent. Do not add anything that was not said.",
+      },
+      {
+        role: "user",
+        content: previous
+          ? `Summary so far:\n${previous.content}\n\nConversation that followed:\n${transcript}`
+          : transcript,
+      },
+    ],
+  });
+  if (response.usage) usage?.add(model, response.usage);
+  if (!response.content) throw new Error("Summary model returned no content");
+  return response.content;
+}
+
+/**
+ * Keeps the history for a chat turn within the model's token budget. Once the
+ * budget is crossed, older turns are folded into a rolling summary that is sent
+ * as a pinned system message; recent turns stay verbatim.
+ */
+export async function fitHistoryToBudget({
+  model,
+  messages,
+  summary,
+  signal,
+  usage,
+}: FitHistoryOptions): Promise<FitHistoryResult> {
+  const budget = getHistoryTokenBudget(model);
+  const covered = Math.min(summary?.messageCount ?? 0, messages.length);
+  const uncovered = messages.slice(covered);
+  const summaryTokens = summary ? countTokens(model, summary.content) : 0;
+
+  if (summaryTokens + countMessageTokens(model, uncovered) <= budget) {
+    return {
+      messages: [...(summary ? [summaryMessage(summary)] : []), ...uncovered],
+      summary,
+      condensed: 0,
+    };
+  }
+
+  const recentStart = findRecentStart(model, uncovered, budget * RECENT_HISTORY_SHARE);
+  const older = uncovered.slice(0, recentStart);
+  const recent = uncovered.slice(recentStart);
+
+  if (older.length === 0) {
+    return { messages: [...(summary ? [summaryMessage(summary)] : []), ...recent], summary, condensed: 0 };
+  }
+
+  try {
+    const content = await summarize(summary, older, signal, usage);
+    const updated: HistorySummary = { content, messageCount: covered + older.length, updatedAt: Date.now() };
+    return { messages: [summaryMessage(updated), ...recent], summary: updated, condensed: older.length };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    logger.error("Failed to summarize history, dropping older turns", { model, error });
+    return {
+      messages: [...(summary ? [summaryMessage(summary)] : []), ...recent],
+      summary,
+      condensed: older.length,
+      summaryFailed: true,
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { getCloudflareEnv } from "@/lib/cloudflare";
+import { KvConversationStore } from "./kv-store";
+import { MemoryConversationStore } from "./memory-store";
+import type { ConversationStore } from "./types";
+
+export type {
+  AttachmentRef,
+  Conversation,
+  ConversationStore,
+  ConversationSummary,
+  HistorySummary,
+  MessageFeedback,
+  NewMessage,
+  StoredMessage,
+  ToolCallRecord,
+} from "./types";
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share one store.
+const globalForStore = globalThis as typeof globalThis & { __conversationStore?: MemoryConversationStore };
+
+/**
+ * Picks the KV-backed store when the `CONVERSATIONS` binding is available
+ * (Cloudflare deploys) and falls back to the in-memory store otherwise.
+ */
+export function getConversationStore(): ConversationStore {
+  const kv = getCloudflareEnv()?.CONVERSATIONS;
+  if (kv) return new KvConversationStore(kv);
+
+  globalForStore.__conversationStore ??= new MemoryConversationStore();
+  return globalForStore.__conversationStore;
+}
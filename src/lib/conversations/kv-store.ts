@@ -0,0 +1,92 @@
+import type {
+  Conversation,
+  ConversationStore,
+  ConversationSummary,
+  HistorySummary,
+  MessageFeedback,
+  NewMessage,
+} from "./types";
+import { appendMessages, createConversation, renameConversation, setMessageFeedback, toSummary } from "./utils";
+
+const LIST_PAGE_LIMIT = 1000;
+
+/**
+ * Cloudflare KV store. Each conversation is one key under the owner's prefix,
+ * with its summary kept in the key metadata so listing needs no extra reads.
+ */
+export class KvConversationStore implements ConversationStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async list(clientId: string): Promise<ConversationSummary[]> {
+    const summaries: ConversationSummary[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list<ConversationSummary>({ prefix: this.prefix(clientId), cursor, limit: LIST_PAGE_LIMIT });
+      for (const key of page.keys) {
+        if (key.metadata) summaries.push(key.metadata);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async get(clientId: string, id: string): Promise<Conversation | null> {
+    return this.kv.get<Conversation>(this.key(clientId, id), "json");
+  }
+
+  async create(clientId: string, title?: string): Promise<Conversation> {
+    const conversation = createConversation(title);
+    await this.put(clientId, conversation);
+    return conversation;
+  }
+
+  async append(clientId: string, id: string, messages: NewMessage[]): Promise<Conversation | null> {
+    return this.update(clientId, id, (c) => appendMessages(c, messages));
+  }
+
+  async rename(clientId: string, id: string, title: string): Promise<Conversation | null> {
+    return this.update(clientId, id, (c) => renameConversation(c, title));
+  }
+
+  async setSummary(clientId: string, id: string, summary: HistorySummary): Promise<Conversation | null> {
+    return this.update(clientId, id, (c) => ({ ...c, summary }));
+  }
+
+  async setFeedback(
+    clientId: string,
+    id: string,
+    messageId: string,
+    feedback: MessageFeedback | null
+  ): Promise<Conversation | null> {
+    return this.update(clientId, id, (c) => setMessageFeedback(c, messageId, feedback));
+  }
+
+  async delete(clientId: string, id: string): Promise<boolean> {
+    const key = this.key(clientId, id);
+    if ((await this.kv.get(key)) === null) return false;
+    await this.kv.delete(key);
+    return true;
+  }
+
+  private async update(clientId: string, id: string, change: (c: Conversation) => Conversation): Promise<Conversation | null> {
+    const existing = await this.get(clientId, id);
+    if (!existing) return null;
+    const updated = change(existing);
+    await this.put(clientId, updated);
+    return updated;
+  }
+
+  private put(clientId: string, conversation: Conversation) {
+    return this.kv.put(this.key(clientId, conversation.id), JSON.stringify(conversation), {
+      metadata: toSummary(conversation),
+    });
+  }
+
+  private prefix(clientId: string) {
+    return `conversation:${clientId}:`;
+  }
+
+  private key(clientId: string, id: string) {
+    return `${this.prefix(clientId)}${id}`;
+  }
+}
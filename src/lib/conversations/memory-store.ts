@@ -0,0 +1,113 @@
+import type {
+  Conversation,
+  ConversationStore,
+  ConversationSummary,
+  HistorySummary,
+  MessageFeedback,
+  NewMessage,
+} from "./types";
+import { appendMessages, createConversation, renameConversation, setMessageFeedback, toSummary } from "./utils";
+
+// Conversations plus messages held at once; beyond this the least recently
+// updated conversations are dropped, so a loop of new chats cannot exhaust memory.
+const MAX_STORED_ITEMS = 20_000;
+
+/**
+ * Process-local store used by `next dev` and plain Node deployments. History
+ * survives page reloads but not server restarts.
+ */
+export class MemoryConversationStore implements ConversationStore {
+  private conversations = new Map<string, Map<string, Conversation>>();
+  /** Owner and ID of every conversation, least recently updated first. */
+  private recency = new Map<string, { clientId: string; id: string }>();
+  private storedItems = 0;
+
+  async list(clientId: string): Promise<ConversationSummary[]> {
+    const owned = this.conversations.get(clientId);
+    if (!owned) return [];
+    return [...owned.values()].map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async get(clientId: string, id: string): Promise<Conversation | null> {
+    return this.conversations.get(clientId)?.get(id) ?? null;
+  }
+
+  async create(clientId: string, title?: string): Promise<Conversation> {
+    const conversation = createConversation(title);
+    this.owned(clientId).set(conversation.id, conversation);
+    this.track(clientId, conversation, null);
+    return conversation;
+  }
+
+  async append(clientId: string, id: string, messages: NewMessage[]): Promise<Conversation | null> {
+    return this.update(clientId, id, (c) => appendMessages(c, messages));
+  }
+
+  async rename(clientId: string, id: string, title: string): Promise<Conversation | null> {
+    return this.update(clientId, id, (c) => renameConversation(c, title));
+  }
+
+  async setSummary(clientId: string, id: string, summary: HistorySummary): Promise<Conversation | null> {
+    return this.update(clientId, id, (c) => ({ ...c, summary }));
+  }
+
+  async setFeedback(
+    clientId: string,
+    id: string,
+    messageId: string,
+    feedback: MessageFeedback | null
+  ): Promise<Conversation | null> {
+    return this.update(clientId, id, (c) => setMessageFeedback(c, messageId, feedback));
+  }
+
+  async delete(clientId: string, id: string): Promise<boolean> {
+    const existing = this.conversations.get(clientId)?.get(id);
+    if (!existing) return false;
+    this.remove(clientId, existing);
+    return true;
+  }
+
+  private update(clientId: string, id: string, change: (c: Conversation) => Conversation): Conversation | null {
+    const owned = this.conversations.get(clientId);
+    const existing = owned?.get(id);
+    if (!owned || !existing) return null;
+    const updated = change(existing);
+    owned.set(id, updated);
+    this.track(clientId, updated, existing);
+    return updated;
+  }
+
+  private track(clientId: string, conversation: Conversation, previous: Conversation | null) {
+    const key = `${clientId}:${conversation.id}`;
+    this.recency.delete(key);
+    this.recency.set(key, { clientId, id: conversation.id });
+    this.storedItems += size(conversation) - (previous ? size(previous) : 0);
+
+    for (const [oldestKey, oldest] of this.recency) {
+      if (this.storedItems <= MAX_STORED_ITEMS || oldestKey === key) break;
+      const stale = this.conversations.get(oldest.clientId)?.get(oldest.id);
+      if (stale) this.remove(oldest.clientId, stale);
+    }
+  }
+
+  private remove(clientId: string, conversation: Conversation) {
+    const owned = this.conversations.get(clientId);
+    owned?.delete(conversation.id);
+    if (owned?.size === 0) this.conversations.delete(clientId);
+    this.recency.delete(`${clientId}:${conversation.id}`);
+    this.storedItems -= size(conversation);
+  }
+
+  private owned(clientId: string): Map<string, Conversation> {
+    let owned = this.conversations.get(clientId);
+    if (!owned) {
+      owned = new Map();
+      this.conversations.set(clientId, owned);
+    }
+    return owned;
+  }
+}
+
+function size(conversation: Conversation): number {
+  return 1 + conversation.messages.length;
+}
@@ -0,0 +1,91 @@
+import type { ToolOutput } from "@/lib/tool-output";
+
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  round: number;
+  arguments: Record<string, unknown> | null;
+  status: "running" | "success" | "error";
+  approval?: "pending" | "approved" | "denied" | "expired";
+  /** What `POST /api/chat/approvals/[id]` takes to answer the approval prompt. */
+  approvalId?: string;
+  durationMs?: number;
+  result?: string;
+  /** Cards, images and resources recognized in the result, for the UI only. */
+  output?: ToolOutput;
+  error?: string;
+}
+
+/** A file attached to a customer message; the bytes live in the attachment store. */
+export interface AttachmentRef {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  /** Text extracted from documents, sent to the model in place of the file. */
+  text?: string;
+}
+
+/** A customer's rating of an assistant reply. */
+export interface MessageFeedback {
+  rating: "up" | "down";
+  comment?: string;
+  at: number;
+}
+
+export interface StoredMessage {
+  id: string;
+  role: "user" | "assistant" | "agent" | "error";
+  content: string;
+  timestamp: number;
+  /** Set on replies from a human agent. */
+  agentName?: string;
+  attachments?: AttachmentRef[];
+  interrupted?: boolean;
+  /** Set on replies restored from an imported transcript, which this app did not produce. */
+  imported?: boolean;
+  toolCalls?: ToolCallRecord[];
+  /** Settings an assistant reply was generated with, kept for quality reporting. */
+  model?: string;
+  tone?: string;
+  language?: string;
+  feedback?: MessageFeedback;
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+/** Condensed form of the first `messageCount` user/assistant messages (errors excluded), sent in their place. */
+export interface HistorySummary {
+  content: string;
+  messageCount: number;
+  updatedAt: number;
+}
+
+export interface Conversation extends ConversationSummary {
+  messages: StoredMessage[];
+  summary?: HistorySummary;
+}
+
+export type NewMessage = Omit<StoredMessage, "id" | "timestamp"> & Partial<Pick<StoredMessage, "id" | "timestamp">>;
+
+/**
+ * Storage backend for chat history. Every operation is scoped to the
+ * anonymous client that owns the conversation.
+ */
+export interface ConversationStore {
+  list(clientId: string): Promise<ConversationSummary[]>;
+  get(clientId: string, id: string): Promise<Conversation | null>;
+  create(clientId: string, title?: string): Promise<Conversation>;
+  append(clientId: string, id: string, messages: NewMessage[]): Promise<Conversation | null>;
+  rename(clientId: string, id: string, title: string): Promise<Conversation | null>;
+  setSummary(clientId: string, id: string, summary: HistorySummary): Promise<Conversation | null>;
+  /** Sets or, with null, clears the feedback on one message. */
+  setFeedback(clientId: string, id: string, messageId: string, feedback: MessageFeedback | null): Promise<Conversation | null>;
+  delete(clientId: string, id: string): Promise<boolean>;
+}
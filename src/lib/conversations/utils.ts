@@ -0,0 +1,58 @@
+import type { Conversation, ConversationSummary, MessageFeedback, NewMessage, StoredMessage } from "./types";
+
+const DEFAULT_TITLE = "New chat";
+const MAX_TITLE_LENGTH = 60;
+
+export function createConversation(title?: string): Conversation {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: truncateTitle(title ?? "") || DEFAULT_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    messageCount: 0,
+    messages: [],
+  };
+}
+
+export function appendMessages(conversation: Conversation, messages: NewMessage[]): Conversation {
+  const now = Date.now();
+  const stored: StoredMessage[] = messages.map((m) => ({
+    ...m,
+    id: m.id || crypto.randomUUID(),
+    timestamp: m.timestamp || now,
+  }));
+  const all = [...conversation.messages, ...stored];
+
+  let title = conversation.title;
+  const firstUserMessage = all.find((m) => m.role === "user");
+  if (title === DEFAULT_TITLE && firstUserMessage) {
+    title = truncateTitle(firstUserMessage.content || firstUserMessage.attachments?.[0]?.name || "") || DEFAULT_TITLE;
+  }
+
+  return { ...conversation, title, messages: all, messageCount: all.length, updatedAt: now };
+}
+
+export function renameConversation(conversation: Conversation, title: string): Conversation {
+  return { ...conversation, title: truncateTitle(title) || DEFAULT_TITLE, updatedAt: Date.now() };
+}
+
+export function setMessageFeedback(
+  conversation: Conversation,
+  messageId: string,
+  feedback: MessageFeedback | null
+): Conversation {
+  return {
+    ...conversation,
+    messages: conversation.messages.map((m) => (m.id === messageId ? { ...m, feedback: feedback ?? undefined } : m)),
+  };
+}
+
+export function toSummary({ id, title, createdAt, updatedAt, messageCount }: Conversation): ConversationSummary {
+  return { id, title, createdAt, updatedAt, messageCount };
+}
+
+function truncateTitle(text: string): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > MAX_TITLE_LENGTH ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1)}…` : singleLine;
+}
@@ -0,0 +1,75 @@
+import type { ConversationEvent } from "./types";
+
+type Listener = (event: ConversationEvent) => void;
+
+// Kept on globalThis so the chat, customer and agent routes share one hub.
+// Like tool approvals, delivery only reaches listeners in the same instance.
+const globalForHub = globalThis as typeof globalThis & { __conversationListeners?: Map<string, Set<Listener>> };
+const listeners = (globalForHub.__conversationListeners ??= new Map<string, Set<Listener>>());
+
+/** Calls `listener` for every event on the conversation until the returned function is called. */
+export function subscribe(conversationId: string, listener: Listener): () => void {
+  let set = listeners.get(conversationId);
+  if (!set) {
+    set = new Set();
+    listeners.set(conversationId, set);
+  }
+  set.add(listener);
+  return () => {
+    set.delete(listener);
+    if (set.size === 0) listeners.delete(conversationId);
+  };
+}
+
+export function publish(conversationId: string, event: ConversationEvent) {
+  for (const listener of listeners.get(conversationId) || []) {
+    listener(event);
+  }
+}
+
+/**
+ * SSE response relaying a conversation's events until the client goes away,
+ * with a comment line every 25s so proxies keep the connection open.
+ */
+export function conversationEventStream(conversationId: string, signal: AbortSignal, initial?: ConversationEvent): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const unsubscribe = subscribe(conversationId, (event) => write(`data: ${JSON.stringify(event)}\n\n`));
+      const heartbeat = setInterval(() => write(": keep-alive\n\n"), 25_000);
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      signal.addEventListener(
+        "abort",
+        () => {
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // Already closed.
+          }
+        },
+        { once: true }
+      );
+      if (initial) write(`data: ${JSON.stringify(initial)}\n\n`);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" },
+  });
+}
@@ -0,0 +1,90 @@
+import { getCloudflareEnv } from "@/lib/cloudflare";
+import { publish } from "./events";
+import { KvEscalationStore } from "./kv-store";
+import { MemoryEscalationStore } from "./memory-store";
+import type { Escalation, EscalationState, EscalationStore } from "./types";
+
+export { conversationEventStream, publish, subscribe } from "./events";
+export type { ConversationEvent, Escalation, EscalationState, EscalationStatus, EscalationStore } from "./types";
+
+const MAX_REASON_LENGTH = 300;
+const MAX_AGENT_NAME_LENGTH = 60;
+
+const globalForStore = globalThis as typeof globalThis & { __escalationStore?: MemoryEscalationStore };
+
+export function getEscalationStore(): EscalationStore {
+  const kv = getCloudflareEnv()?.CONVERSATIONS;
+  if (kv) return new KvEscalationStore(kv);
+
+  globalForStore.__escalationStore ??= new MemoryEscalationStore();
+  return globalForStore.__escalationStore;
+}
+
+/** True while a human agent, not the assistant, answers the conversation. */
+export function isOpen(escalation: Escalation | null): escalation is Escalation {
+  return escalation?.status === "queued" || escalation?.status === "claimed";
+}
+
+/** The trimmed name agents sign their replies with, or null if it is unusable. */
+export function parseAgentName(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const name = value.trim();
+  return name && name.length <= MAX_AGENT_NAME_LENGTH ? name : null;
+}
+
+export function toEscalationState(escalation: Escalation): EscalationState {
+  return { status: escalation.status, agentName: escalation.agentName };
+}
+
+/** Puts the conversation in the agent queue, or returns its escalation if one is already open. */
+export async function requestEscalation(options: {
+  clientId: string;
+  conversationId: string;
+  title: string;
+  requestedBy: Escalation["requestedBy"];
+  reason?: string;
+}): Promise<Escalation> {
+  const store = getEscalationStore();
+  const existing = await store.get(options.conversationId);
+  if (isOpen(existing)) return existing;
+
+  const escalation: Escalation = {
+    conversationId: options.conversationId,
+    clientId: options.clientId,
+    title: options.title,
+    status: "queued",
+    requestedBy: options.requestedBy,
+    reason: options.reason?.trim().slice(0, MAX_REASON_LENGTH) || undefined,
+    requestedAt: Date.now(),
+  };
+  await store.put(escalation);
+  publish(escalation.conversationId, { type: "escalation", status: "queued" });
+  return escalation;
+}
+
+/**
+ * Assigns an open escalation to an agent. Another agent can take over a
+ * claimed chat; returns null when the conversation is not escalated.
+ */
+export async function claimEscalation(conversationId: string, agentName: string): Promise<Escalation | null> {
+  const store = getEscalationStore();
+  const escalation = await store.get(conversationId);
+  if (!isOpen(escalation)) return null;
+
+  const claimed: Escalation = { ...escalation, status: "claimed", agentName, claimedAt: Date.now() };
+  await store.put(claimed);
+  publish(conversationId, { type: "escalation", status: "claimed", agentName });
+  return claimed;
+}
+
+/** Hands the conversation back to the assistant. */
+export async function closeEscalation(conversationId: string): Promise<Escalation | null> {
+  const store = getEscalationStore();
+  const escalation = await store.get(conversationId);
+  if (!isOpen(escalation)) return null;
+
+  const closed: Escalation = { ...escalation, status: "closed", closedAt: Date.now() };
+  await store.put(closed);
+  publish(conversationId, { type: "escalation", status: "closed", agentName: closed.agentName });
+  return closed;
+}
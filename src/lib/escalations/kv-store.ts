@@ -0,0 +1,43 @@
+import type { Escalation, EscalationStore } from "./types";
+
+const PREFIX = "escalation:";
+// Closed escalations only matter until the customer's view has caught up.
+const CLOSED_TTL_SECONDS = 24 * 60 * 60;
+
+/** Key metadata: a fixed-size summary, since KV caps metadata at 1 KiB and reasons and titles can be long. */
+type EscalationMetadata = Pick<Escalation, "status" | "requestedAt">;
+
+/**
+ * Cloudflare KV store sharing the CONVERSATIONS namespace. Key metadata holds
+ * the status, so the agent queue only reads the records of open escalations.
+ */
+export class KvEscalationStore implements EscalationStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async listOpen(): Promise<Escalation[]> {
+    const open: Escalation[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list<EscalationMetadata>({ prefix: PREFIX, cursor });
+      const keys = page.keys.filter((key) => key.metadata?.status !== "closed");
+      const values = await Promise.all(keys.map((key) => this.kv.get<Escalation>(key.name, "json")));
+      for (const escalation of values) {
+        if (escalation && escalation.status !== "closed") open.push(escalation);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return open.sort((a, b) => a.requestedAt - b.requestedAt);
+  }
+
+  async get(conversationId: string): Promise<Escalation | null> {
+    return this.kv.get<Escalation>(`${PREFIX}${conversationId}`, "json");
+  }
+
+  async put(escalation: Escalation): Promise<void> {
+    const metadata: EscalationMetadata = { status: escalation.status, requestedAt: escalation.requestedAt };
+    await this.kv.put(`${PREFIX}${escalation.conversationId}`, JSON.stringify(escalation), {
+      metadata,
+      ...(escalation.status === "closed" && { expirationTtl: CLOSED_TTL_SECONDS }),
+    });
+  }
+}
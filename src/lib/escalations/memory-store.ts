@@ -0,0 +1,19 @@
+import type { Escalation, EscalationStore } from "./types";
+
+export class MemoryEscalationStore implements EscalationStore {
+  private escalations = new Map<string, Escalation>();
+
+  async listOpen(): Promise<Escalation[]> {
+    return [...this.escalations.values()]
+      .filter((e) => e.status !== "closed")
+      .sort((a, b) => a.requestedAt - b.requestedAt);
+  }
+
+  async get(conversationId: string): Promise<Escalation | null> {
+    return this.escalations.get(conversationId) ?? null;
+  }
+
+  async put(escalation: Escalation): Promise<void> {
+    this.escalations.set(escalation.conversationId, escalation);
+  }
+}
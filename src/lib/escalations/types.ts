@@ -0,0 +1,37 @@
+import type { StoredMessage } from "@/lib/conversations/types";
+
+export type EscalationStatus = "queued" | "claimed" | "closed";
+
+/** A conversation handed from the assistant to a human agent. */
+export interface Escalation {
+  conversationId: string;
+  /** Owner of the conversation, so agents can reach it without the customer's cookie. */
+  clientId: string;
+  title: string;
+  status: EscalationStatus;
+  requestedBy: "customer" | "assistant";
+  reason?: string;
+  requestedAt: number;
+  agentName?: string;
+  claimedAt?: number;
+  closedAt?: number;
+}
+
+/** What the customer's view needs to know about an escalation. */
+export type EscalationState = Pick<Escalation, "status" | "agentName">;
+
+/**
+ * Pushed to everyone watching a conversation, in the same `data: {json}` SSE
+ * format as `/api/chat`.
+ */
+export type ConversationEvent =
+  | { type: "escalation"; status: EscalationStatus; agentName?: string }
+  | { type: "agent_message"; message: StoredMessage }
+  | { type: "customer_message"; message: StoredMessage };
+
+export interface EscalationStore {
+  /** Queued and claimed escalations, oldest request first. */
+  listOpen(): Promise<Escalation[]>;
+  get(conversationId: string): Promise<Escalation | null>;
+  put(escalation: Escalation): Promise<void>;
+}
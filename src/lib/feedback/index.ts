@@ -0,0 +1,72 @@
+import { getCloudflareEnv } from "@/lib/cloudflare";
+import { usageDate } from "@/lib/usage";
+import { KvFeedbackStore } from "./kv-store";
+import { MemoryFeedbackStore } from "./memory-store";
+import type { ConversationFeedback, FeedbackRecord, FeedbackReport, FeedbackStore, FeedbackTally } from "./types";
+
+export type { ConversationFeedback, FeedbackRecord, FeedbackReport, FeedbackStore, FeedbackTally } from "./types";
+
+export const MAX_FEEDBACK_COMMENT_LENGTH = 300;
+const REPORTED_CONVERSATIONS = 20;
+const NO_TOOL = "none";
+
+const globalForStore = globalThis as typeof globalThis & { __feedbackStore?: MemoryFeedbackStore };
+
+export function getFeedbackStore(): FeedbackStore {
+  const kv = getCloudflareEnv()?.USAGE;
+  if (kv) return new KvFeedbackStore(kv);
+
+  globalForStore.__feedbackStore ??= new MemoryFeedbackStore();
+  return globalForStore.__feedbackStore;
+}
+
+function tally(records: FeedbackRecord[]): FeedbackTally {
+  const up = records.filter((record) => record.rating === "up").length;
+  const down = records.length - up;
+  return { up, down, satisfaction: records.length ? up / records.length : null };
+}
+
+function tallyBy(records: FeedbackRecord[], keysOf: (record: FeedbackRecord) => string[]): Record<string, FeedbackTally> {
+  const groups = new Map<string, FeedbackRecord[]>();
+  for (const record of records) {
+    for (const key of keysOf(record)) groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+  return Object.fromEntries([...groups].map(([key, group]) => [key, tally(group)]));
+}
+
+/** Aggregates the ratings of replies sent on `dates` into satisfaction by setting, day and conversation. */
+export function buildFeedbackReport(records: FeedbackRecord[], dates: string[]): FeedbackReport {
+  const byConversation = new Map<string, FeedbackRecord[]>();
+  for (const record of records) {
+    byConversation.set(record.conversationId, [...(byConversation.get(record.conversationId) ?? []), record]);
+  }
+
+  const conversations: ConversationFeedback[] = [...byConversation.values()]
+    .map((group) => {
+      const latest = group.reduce((a, b) => (b.ratedAt > a.ratedAt ? b : a));
+      return {
+        conversationId: latest.conversationId,
+        clientId: latest.clientId,
+        title: latest.title,
+        ...tally(group),
+        comments: group.flatMap((record) => (record.rating === "down" && record.comment ? [record.comment] : [])),
+        lastRatedAt: latest.ratedAt,
+      };
+    })
+    .filter((conversation) => conversation.down > 0)
+    .sort((a, b) => b.down - a.down || b.lastRatedAt - a.lastRatedAt)
+    .slice(0, REPORTED_CONVERSATIONS);
+
+  return {
+    total: tally(records),
+    byModel: tallyBy(records, (record) => [record.model]),
+    byTone: tallyBy(records, (record) => [record.tone]),
+    byLanguage: tallyBy(records, (record) => [record.language]),
+    byTool: tallyBy(records, (record) => (record.tools.length ? record.tools : [NO_TOOL])),
+    days: dates.map((date) => ({
+      date,
+      ...tally(records.filter((record) => usageDate(new Date(record.repliedAt)) === date)),
+    })),
+    conversations,
+  };
+}
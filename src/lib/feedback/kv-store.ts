@@ -0,0 +1,49 @@
+import { usageDate } from "@/lib/usage";
+import type { FeedbackRecord, FeedbackStore } from "./types";
+
+const PREFIX = "feedback:";
+
+/** Key metadata: a fixed-size summary, since KV caps metadata at 1 KiB and comments and titles can be long. */
+type FeedbackMetadata = Pick<FeedbackRecord, "rating" | "ratedAt">;
+
+/**
+ * Cloudflare KV store sharing the USAGE namespace. Keys start with the day
+ * the reply was sent so a report lists one prefix per day; the record itself
+ * is the value.
+ */
+export class KvFeedbackStore implements FeedbackStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async put(record: FeedbackRecord): Promise<void> {
+    const metadata: FeedbackMetadata = { rating: record.rating, ratedAt: record.ratedAt };
+    await this.kv.put(this.key(record), JSON.stringify(record), { metadata });
+  }
+
+  async delete(record: Pick<FeedbackRecord, "conversationId" | "messageId" | "repliedAt">): Promise<void> {
+    await this.kv.delete(this.key(record));
+  }
+
+  async listDays(dates: string[]): Promise<FeedbackRecord[]> {
+    const days = await Promise.all(dates.map((date) => this.listDay(date)));
+    return days.flat();
+  }
+
+  private async listDay(date: string): Promise<FeedbackRecord[]> {
+    const records: FeedbackRecord[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list<FeedbackMetadata>({ prefix: `${PREFIX}${date}:`, cursor });
+      const values = await Promise.all(page.keys.map((key) => this.kv.get<FeedbackRecord>(key.name, "json")));
+      for (const record of values) {
+        // Deleted between listing and reading.
+        if (record) records.push(record);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return records;
+  }
+
+  private key({ conversationId, messageId, repliedAt }: Pick<FeedbackRecord, "conversationId" | "messageId" | "repliedAt">) {
+    return `${PREFIX}${usageDate(new Date(repliedAt))}:${conversationId}:${messageId}`;
+  }
+}
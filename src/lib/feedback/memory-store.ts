@@ -0,0 +1,19 @@
+import { usageDate } from "@/lib/usage";
+import type { FeedbackRecord, FeedbackStore } from "./types";
+
+export class MemoryFeedbackStore implements FeedbackStore {
+  private records = new Map<string, FeedbackRecord>();
+
+  async put(record: FeedbackRecord): Promise<void> {
+    this.records.set(`${record.conversationId}:${record.messageId}`, record);
+  }
+
+  async delete({ conversationId, messageId }: Pick<FeedbackRecord, "conversationId" | "messageId">): Promise<void> {
+    this.records.delete(`${conversationId}:${messageId}`);
+  }
+
+  async listDays(dates: string[]): Promise<FeedbackRecord[]> {
+    const wanted = new Set(dates);
+    return [...this.records.values()].filter((record) => wanted.has(usageDate(new Date(record.repliedAt))));
+  }
+}
@@ -0,0 +1,52 @@
+/** One customer rating, denormalized with what produced the rated reply. */
+export interface FeedbackRecord {
+  conversationId: string;
+  clientId: string;
+  messageId: string;
+  /** Conversation title when the rating was given, for the report. */
+  title: string;
+  rating: "up" | "down";
+  comment?: string;
+  model: string;
+  tone: string;
+  language: string;
+  tools: string[];
+  /** When the rated reply was sent; reports bucket ratings by this day. */
+  repliedAt: number;
+  ratedAt: number;
+}
+
+export interface FeedbackTally {
+  up: number;
+  down: number;
+  /** Share of ratings that are thumbs up, or null without ratings. */
+  satisfaction: number | null;
+}
+
+export interface ConversationFeedback extends FeedbackTally {
+  conversationId: string;
+  clientId: string;
+  title: string;
+  comments: string[];
+  lastRatedAt: number;
+}
+
+export interface FeedbackReport {
+  total: FeedbackTally;
+  byModel: Record<string, FeedbackTally>;
+  byTone: Record<string, FeedbackTally>;
+  byLanguage: Record<string, FeedbackTally>;
+  /** Replies that used no tool are counted under "none". */
+  byTool: Record<string, FeedbackTally>;
+  days: Array<FeedbackTally & { date: string }>;
+  /** Conversations with the most thumbs down, worst first. */
+  conversations: ConversationFeedback[];
+}
+
+export interface FeedbackStore {
+  /** Adds or replaces the rating of one message. */
+  put(record: FeedbackRecord): Promise<void>;
+  delete(record: Pick<FeedbackRecord, "conversationId" | "messageId" | "repliedAt">): Promise<void>;
+  /** Ratings of replies sent on the given UTC days (YYYY-MM-DD). */
+  listDays(dates: string[]): Promise<FeedbackRecord[]>;
+}
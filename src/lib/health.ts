@@ -0,0 +1,119 @@
+import { MODEL_OPTIONS } from "@/lib/chat-contract";
+import { resolveModel, type LlmProvider } from "@/lib/llm";
+import { McpConnection, type McpServerConfig } from "@/lib/mcp";
+import { getCircuitBreaker, readIntEnv, type CircuitState } from "@/lib/resilience";
+
+const CHECK_TIMEOUT_MS = 5000;
+const DEFAULT_CACHE_MS = 10_000;
+
+interface CheckResult {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface McpHealth extends CheckResult {
+  name: string;
+  tools?: number;
+  /** Whether chat requests are currently calling the server; "open" means they skip it after repeated failures. */
+  circuit: CircuitState;
+}
+
+export interface LlmHealth extends CheckResult {
+  provider: string;
+  endpoint?: string;
+  /** Models from the settings panel served by this provider. */
+  models: string[];
+}
+
+export interface HealthReport {
+  /** "down" when no model can answer, "degraded" when anything else fails. */
+  status: "ok" | "degraded" | "down";
+  checkedAt: string;
+  mcp: McpHealth[];
+  llm: LlmHealth[];
+}
+
+async function timed<T>(check: (signal: AbortSignal) => Promise<T>): Promise<CheckResult & { value?: T }> {
+  const signal = AbortSignal.timeout(CHECK_TIMEOUT_MS);
+  const startedAt = performance.now();
+  try {
+    // Not every check honours the signal (the MCP handshake does not), so race it too.
+    const value = await Promise.race([
+      check(signal),
+      new Promise<never>((_, reject) => signal.addEventListener("abort", () => reject(new Error("Timed out")), { once: true })),
+    ]);
+    return { ok: true, latencyMs: Math.round(performance.now() - startedAt), value };
+  } catch (error) {
+    return { ok: false, latencyMs: Math.round(performance.now() - startedAt), error: (error as Error).message };
+  }
+}
+
+/** Opens a fresh session, so neither a cached tool list nor an open session hides an outage. */
+async function checkMcpServer(server: McpServerConfig): Promise<McpHealth> {
+  const connection = new McpConnection(server, 0);
+  const { value: tools, ...result } = await timed(() => connection.listTools());
+  void connection.close();
+  return {
+    name: server.name,
+    ...result,
+    ...(tools && { tools: tools.length }),
+    circuit: getCircuitBreaker(`mcp:${server.name}`).state,
+  };
+}
+
+async function checkLlmProviders(): Promise<LlmHealth[]> {
+  const checks = new Map<string, { check: Promise<CheckResult>; health: Omit<LlmHealth, keyof CheckResult> }>();
+  const misconfigured: LlmHealth[] = [];
+
+  for (const { value: model } of MODEL_OPTIONS) {
+    let provider: LlmProvider;
+    try {
+      ({ provider } = resolveModel(model));
+    } catch (error) {
+      misconfigured.push({ provider: "unknown", models: [model], ok: false, latencyMs: 0, error: (error as Error).message });
+      continue;
+    }
+    const key = `${provider.label} ${provider.endpoint}`;
+    const existing = checks.get(key);
+    if (existing) existing.health.models.push(model);
+    else {
+      checks.set(key, {
+        check: timed((signal) => provider.ping(signal)),
+        health: { provider: provider.label, endpoint: provider.endpoint, models: [model] },
+      });
+    }
+  }
+
+  const checked = await Promise.all([...checks.values()].map(async ({ check, health }) => ({ ...health, ...(await check) })));
+  return [...checked, ...misconfigured];
+}
+
+let cached: { report: Promise<HealthReport>; expiresAt: number } | null = null;
+
+/**
+ * The latest report, checked again at most every `HEALTH_CACHE_MS`. Concurrent
+ * probes share one run of the checks, so polling cannot multiply the MCP
+ * sessions and provider calls it makes.
+ */
+export function getHealthReport(servers: McpServerConfig[]): Promise<HealthReport> {
+  if (cached && cached.expiresAt > Date.now()) return cached.report;
+
+  const entry = { report: checkHealth(servers), expiresAt: Infinity };
+  cached = entry;
+  const expire = () => {
+    entry.expiresAt = Date.now() + readIntEnv("HEALTH_CACHE_MS", DEFAULT_CACHE_MS);
+  };
+  entry.report.then(expire, expire);
+  return entry.report;
+}
+
+export async function checkHealth(servers: McpServerConfig[]): Promise<HealthReport> {
+  const [mcp, llm] = await Promise.all([Promise.all(servers.map(checkMcpServer)), checkLlmProviders()]);
+  const status = !llm.some((check) => check.ok)
+    ? "down"
+    : [...mcp, ...llm].every((check) => check.ok)
+    ? "ok"
+    : "degraded";
+  return { status, checkedAt: new Date().toISOString(), mcp, llm };
+}
@@ -0,0 +1,256 @@
+import type { ChatMessage, ChatRequest, ChatStreamEvent, LlmProvider, TokenUsage, ToolCall } from "./types";
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com";
+const API_VERSION = "2023-06-01";
+const MAX_OUTPUT_TOKENS = 4096;
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "base64"; media_type: string; data: string } }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicContentBlock[];
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+class AnthropicApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Splits out system prompts and folds tool results into user turns, as the
+ * Messages API expects strictly alternating user/assistant messages.
+ */
+function toAnthropicMessages(messages: ChatMessage[]): { system: string; messages: AnthropicMessage[] } {
+  const system: string[] = [];
+  const result: AnthropicMessage[] = [];
+
+  const push = (role: AnthropicMessage["role"], blocks: AnthropicContentBlock[]) => {
+    const last = result[result.length - 1];
+    if (last?.role === role) last.content.push(...blocks);
+    else result.push({ role, content: blocks });
+  };
+
+  for (const message of messages) {
+    switch (message.role) {
+      case "system":
+        system.push(message.content);
+        break;
+      case "user":
+        push(
+          "user",
+          typeof message.content === "string"
+            ? [{ type: "text", text: message.content }]
+            : message.content.map((part) =>
+                part.type === "text"
+                  ? { type: "text" as const, text: part.text }
+                  : { type: "image" as const, source: { type: "base64" as const, media_type: part.mimeType, data: part.data } }
+              )
+        );
+        break;
+      case "assistant": {
+        const blocks: AnthropicContentBlock[] = [
+          ...(message.content ? [{ type: "text" as const, text: message.content }] : []),
+          ...(message.toolCalls || []).map((tc) => ({
+            type: "tool_use" as const,
+            id: tc.id,
+            name: tc.name,
+            input: safeParse(tc.arguments),
+          })),
+        ];
+        // A reply stopped before any output has nothing to send, and the API rejects an empty turn.
+        if (blocks.length > 0) push("assistant", blocks);
+        break;
+      }
+      case "tool":
+        push("user", [{ type: "tool_result", tool_use_id: message.toolCallId, content: message.content }]);
+        break;
+    }
+  }
+
+  return { system: system.join("\n\n"), messages: result };
+}
+
+function safeParse(json: string): unknown {
+  try {
+    return JSON.parse(json || "{}");
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Input tokens as the rest of the app counts them: Anthropic reports uncached,
+ * cache-read and cache-write input separately, and all of them are billed.
+ */
+function promptUsage(usage: AnthropicUsage): Pick<TokenUsage, "promptTokens" | "cachedPromptTokens"> {
+  const cached = usage.cache_read_input_tokens || 0;
+  return {
+    promptTokens: (usage.input_tokens || 0) + cached + (usage.cache_creation_input_tokens || 0),
+    cachedPromptTokens: cached,
+  };
+}
+
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncIterable<Record<string, unknown>> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    // Proxies and compatible gateways may end lines with CRLF or CR. A CR at the
+    // end of the buffer waits for the next chunk, which may start with its LF.
+    buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n|\r(?=[\s\S])/g, "\n");
+    const events = buffer.split("\n\n");
+    buffer = events.pop() || "";
+
+    for (const event of events) {
+      const data = event
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(line.startsWith("data: ") ? 6 : 5))
+        .join("");
+      if (data) yield JSON.parse(data);
+    }
+  }
+}
+
+/** Anthropic Messages API adapter with tool use, spoken over plain fetch. */
+export class AnthropicProvider implements LlmProvider {
+  readonly label = "Anthropic";
+
+  constructor(private readonly options: { apiKey?: string; apiKeyEnv?: string; baseUrl?: string }) {}
+
+  async *streamChat({ model, messages, tools, signal }: ChatRequest): AsyncIterable<ChatStreamEvent> {
+    const body = await this.request(
+      {
+        model,
+        ...toAnthropicMessages(messages),
+        tools: tools?.length
+          ? tools.map((tool) => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+          : undefined,
+        stream: true,
+      },
+      signal
+    );
+    if (!body.body) throw new Error("Anthropic: empty response body");
+
+    const usage: TokenUsage = { promptTokens: 0, cachedPromptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    const toolCalls = new Map<number, ToolCall>();
+
+    for await (const event of readServerSentEvents(body.body)) {
+      switch (event.type) {
+        case "message_start": {
+          Object.assign(usage, promptUsage((event.message as { usage?: AnthropicUsage })?.usage || {}));
+          break;
+        }
+        case "content_block_start": {
+          const block = event.content_block as { type: string; id?: string; name?: string };
+          if (block.type === "tool_use") {
+            toolCalls.set(event.index as number, { id: block.id || "", name: block.name || "", arguments: "" });
+          }
+          break;
+        }
+        case "content_block_delta": {
+          const delta = event.delta as { type: string; text?: string; partial_json?: string };
+          if (delta.type === "text_delta" && delta.text) {
+            yield { type: "text", text: delta.text };
+          } else if (delta.type === "input_json_delta") {
+            const toolCall = toolCalls.get(event.index as number);
+            if (toolCall) toolCall.arguments += delta.partial_json || "";
+          }
+          break;
+        }
+        case "message_delta":
+          usage.completionTokens = (event.usage as AnthropicUsage)?.output_tokens || 0;
+          break;
+        case "error":
+          throw new AnthropicApiError((event.error as { message?: string })?.message || "Stream error", 500);
+      }
+    }
+
+    for (const toolCall of toolCalls.values()) {
+      yield { type: "tool_call", toolCall };
+    }
+    usage.totalTokens = usage.promptTokens + usage.completionTokens;
+    yield { type: "usage", usage };
+  }
+
+  async complete({ model, messages, signal }: Omit<ChatRequest, "tools">) {
+    const response = await this.request({ model, ...toAnthropicMessages(messages) }, signal);
+    const data = (await response.json()) as { content: AnthropicContentBlock[]; usage?: AnthropicUsage };
+    const content = data.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("")
+      .trim();
+    if (!data.usage) return { content, usage: undefined };
+
+    const prompt = promptUsage(data.usage);
+    const completionTokens = data.usage.output_tokens || 0;
+    return {
+      content,
+      usage: { ...prompt, completionTokens, totalTokens: prompt.promptTokens + completionTokens },
+    };
+  }
+
+  get endpoint(): string {
+    return (this.options.baseUrl || DEFAULT_BASE_URL).replace(/^https?:\/\//, "").split("/")[0];
+  }
+
+  async ping(signal?: AbortSignal) {
+    const response = await fetch(`${this.options.baseUrl || DEFAULT_BASE_URL}/v1/models?limit=1`, {
+      headers: { "x-api-key": this.options.apiKey || "", "anthropic-version": API_VERSION },
+      signal,
+    });
+    if (!response.ok) throw new AnthropicApiError(`HTTP ${response.status}`, response.status);
+  }
+
+  describeError(error: unknown): string {
+    const err = error as Error & { status?: number; cause?: { code?: string } };
+    if (err.status === 401) {
+      return `Anthropic: Invalid API key. Please check ${this.options.apiKeyEnv || "the API key"}.`;
+    } else if (err.status === 429) {
+      return "Anthropic: Rate limit exceeded. Please try again later.";
+    } else if (err.status === 529 || (err.status && err.status >= 500)) {
+      return "Anthropic: Server error. Please try again.";
+    } else if (err.cause?.code === "ENOTFOUND" || err.cause?.code === "ECONNREFUSED") {
+      return `Anthropic: Network error - cannot reach ${this.options.baseUrl || DEFAULT_BASE_URL}`;
+    }
+    return `Anthropic: ${err.message || "Unknown error"}`;
+  }
+
+  private async request(payload: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.options.baseUrl || DEFAULT_BASE_URL}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-api-key": this.options.apiKey || "",
+        "anthropic-version": API_VERSION,
+      },
+      body: JSON.stringify({ max_tokens: MAX_OUTPUT_TOKENS, ...payload }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => null)) as { error?: { message?: string } } | null;
+      throw new AnthropicApiError(data?.error?.message || `HTTP ${response.status}`, response.status);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,102 @@
+import { getModelCapabilities } from "@/lib/models";
+import { AnthropicProvider } from "./anthropic";
+import { OpenAIProvider } from "./openai";
+import { ProviderConfigError, type LlmProvider, type ProviderConfig } from "./types";
+
+export type { ChatMessage, ChatStreamEvent, ContentPart, LlmProvider, TokenUsage, ToolCall, ToolDefinition } from "./types";
+export { ProviderConfigError } from "./types";
+
+const PROVIDER_TYPES = new Set<ProviderConfig["type"]>(["openai", "openai-compatible", "anthropic"]);
+const DEFAULT_API_KEY_ENV: Record<ProviderConfig["type"], string | undefined> = {
+  openai: "OPENAI_API_KEY",
+  "openai-compatible": undefined,
+  anthropic: "ANTHROPIC_API_KEY",
+};
+
+/**
+ * Reads `LLM_PROVIDERS`, a JSON object mapping model names from the settings
+ * panel (or "*" for every model) to a provider config. Models without an
+ * entry use OpenAI with OPENAI_API_KEY.
+ */
+function getProviderConfigs(): Record<string, ProviderConfig> {
+  const raw = process.env.LLM_PROVIDERS;
+  if (!raw) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ProviderConfigError("LLM_PROVIDERS must be a JSON object of model name to provider config");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ProviderConfigError("LLM_PROVIDERS must be a JSON object of model name to provider config");
+  }
+
+  for (const [model, config] of Object.entries(parsed as Record<string, ProviderConfig>)) {
+    if (!PROVIDER_TYPES.has(config?.type)) {
+      throw new ProviderConfigError(`LLM_PROVIDERS["${model}"]: type must be one of ${[...PROVIDER_TYPES].join(", ")}`);
+    }
+    if (config.type === "openai-compatible" && !config.baseUrl) {
+      throw new ProviderConfigError(`LLM_PROVIDERS["${model}"]: openai-compatible providers need a baseUrl`);
+    }
+  }
+  return parsed as Record<string, ProviderConfig>;
+}
+
+function createProvider(config: ProviderConfig): LlmProvider {
+  const apiKeyEnv = config.apiKeyEnv || DEFAULT_API_KEY_ENV[config.type];
+  const apiKey = apiKeyEnv ? process.env[apiKeyEnv] : undefined;
+  if (apiKeyEnv && !apiKey) {
+    throw new ProviderConfigError(`${apiKeyEnv} environment variable is not set`);
+  }
+
+  switch (config.type) {
+    case "anthropic":
+      return new AnthropicProvider({ apiKey, apiKeyEnv, baseUrl: config.baseUrl });
+    case "openai-compatible":
+      return new OpenAIProvider("LLM", { apiKey, apiKeyEnv, baseURL: config.baseUrl });
+    default:
+      return new OpenAIProvider("OpenAI", { apiKey, apiKeyEnv, baseURL: config.baseUrl });
+  }
+}
+
+/**
+ * Reads `MODEL_FALLBACKS`, a JSON object mapping a model name to the models to
+ * try, in order, when it is overloaded or unreachable, e.g.
+ * `{"gpt-5.2": ["gpt-5-mini", "gpt-5-nano"]}`.
+ */
+export function getFallbackModels(model: string): string[] {
+  const raw = process.env.MODEL_FALLBACKS;
+  if (!raw) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ProviderConfigError("MODEL_FALLBACKS must be a JSON object of model name to an array of model names");
+  }
+  const chains = parsed as Record<string, unknown>;
+  if (
+    !chains ||
+    typeof chains !== "object" ||
+    Array.isArray(chains) ||
+    !Object.values(chains).every((chain) => Array.isArray(chain) && chain.every((m) => typeof m === "string"))
+  ) {
+    throw new ProviderConfigError("MODEL_FALLBACKS must be a JSON object of model name to an array of model names");
+  }
+  return ((chains[model] as string[] | undefined) ?? []).filter((fallback) => fallback !== model);
+}
+
+/**
+ * Maps a model name to the provider that serves it and the model name to send
+ * upstream. Throws ProviderConfigError when the provider is misconfigured.
+ */
+export function resolveModel(model: string): { provider: LlmProvider; upstreamModel: string; vision: boolean } {
+  const configs = getProviderConfigs();
+  const config = configs[model] || configs["*"] || { type: "openai" };
+  return {
+    provider: createProvider(config),
+    upstreamModel: config.model || model,
+    vision: config.vision ?? getModelCapabilities(model).vision,
+  };
+}
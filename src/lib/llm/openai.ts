@@ -0,0 +1,141 @@
+import OpenAI from "openai";
+import type { ChatMessage, ChatRequest, ChatStreamEvent, LlmProvider, TokenUsage, ToolCall } from "./types";
+
+function toOpenAIMessage(message: ChatMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  switch (message.role) {
+    case "assistant":
+      return {
+        role: "assistant",
+        content: message.content,
+        ...(message.toolCalls?.length && {
+          tool_calls: message.toolCalls.map((tc) => ({
+            id: tc.id,
+            type: "function" as const,
+            function: { name: tc.name, arguments: tc.arguments },
+          })),
+        }),
+      };
+    case "tool":
+      return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+    case "user":
+      return {
+        role: "user",
+        content:
+          typeof message.content === "string"
+            ? message.content
+            : message.content.map((part) =>
+                part.type === "text"
+                  ? { type: "text" as const, text: part.text }
+                  : { type: "image_url" as const, image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+              ),
+      };
+    default:
+      return message;
+  }
+}
+
+function toTokenUsage(usage: OpenAI.CompletionUsage): TokenUsage {
+  return {
+    promptTokens: usage.prompt_tokens,
+    cachedPromptTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+/**
+ * Chat Completions adapter for OpenAI and any server that implements the same
+ * API (Ollama, vLLM, LM Studio, a local mock) via `baseURL`.
+ */
+export class OpenAIProvider implements LlmProvider {
+  private readonly client: OpenAI;
+  private readonly apiKeyEnv?: string;
+
+  constructor(
+    readonly label: string,
+    options: { apiKey?: string; apiKeyEnv?: string; baseURL?: string }
+  ) {
+    // Local OpenAI-compatible servers usually ignore the key, but the SDK requires one.
+    // Retries happen in the chat route, which can also fall back to another model.
+    this.client = new OpenAI({ apiKey: options.apiKey || "not-needed", baseURL: options.baseURL, maxRetries: 0 });
+    this.apiKeyEnv = options.apiKeyEnv;
+  }
+
+  async *streamChat({ model, messages, tools, signal }: ChatRequest): AsyncIterable<ChatStreamEvent> {
+    const response = await this.client.chat.completions.create(
+      {
+        model,
+        messages: messages.map(toOpenAIMessage),
+        tools: tools?.length
+          ? tools.map((tool) => ({ type: "function" as const, function: tool }))
+          : undefined,
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal }
+    );
+
+    const toolCalls: ToolCall[] = [];
+
+    for await (const chunk of response) {
+      if (chunk.usage) yield { type: "usage", usage: toTokenUsage(chunk.usage) };
+      const delta = chunk.choices[0]?.delta;
+
+      if (delta?.content) {
+        yield { type: "text", text: delta.content };
+      }
+
+      if (delta?.tool_calls) {
+        for (const tc of delta.tool_calls) {
+          if (tc.index !== undefined) {
+            if (!toolCalls[tc.index]) {
+              toolCalls[tc.index] = { id: tc.id || "", name: tc.function?.name || "", arguments: "" };
+            }
+            if (tc.id) toolCalls[tc.index].id = tc.id;
+            if (tc.function?.name) toolCalls[tc.index].name = tc.function.name;
+            if (tc.function?.arguments) toolCalls[tc.index].arguments += tc.function.arguments;
+          }
+        }
+      }
+    }
+
+    for (const toolCall of toolCalls) {
+      if (toolCall) yield { type: "tool_call", toolCall };
+    }
+  }
+
+  async complete({ model, messages, signal }: Omit<ChatRequest, "tools">) {
+    const response = await this.client.chat.completions.create(
+      { model, messages: messages.map(toOpenAIMessage) },
+      { signal }
+    );
+    return {
+      content: response.choices[0]?.message?.content?.trim() || "",
+      usage: response.usage ? toTokenUsage(response.usage) : undefined,
+    };
+  }
+
+  get endpoint(): string {
+    return this.client.baseURL.replace(/^https?:\/\//, "").split("/")[0];
+  }
+
+  async ping(signal?: AbortSignal) {
+    await this.client.models.list({ signal, maxRetries: 0 });
+  }
+
+  describeError(error: unknown): string {
+    const err = error as Error & { status?: number; code?: string };
+    const host = this.endpoint;
+
+    if (err.status === 401 || err.message?.includes("401") || err.message?.includes("Unauthorized")) {
+      return `${this.label}: Invalid API key. Please check ${this.apiKeyEnv || "the API key"}.`;
+    } else if (err.status === 429 || err.message?.includes("429")) {
+      return `${this.label}: Rate limit exceeded. Please try again later.`;
+    } else if (err.status === 500 || err.message?.includes("500")) {
+      return `${this.label}: Server error. Please try again.`;
+    } else if (err.code === "ENOTFOUND" || err.message?.includes("ENOTFOUND") || err.code === "ECONNREFUSED") {
+      return `${this.label}: Network error - cannot reach ${host}`;
+    }
+    return `${this.label}: ${err.message || "Unknown error"}`;
+  }
+}
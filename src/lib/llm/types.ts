@@ -0,0 +1,74 @@
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** Raw JSON text as produced by the model; may be malformed. */
+  arguments: string;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/** Part of a multi-part user message. Images are only sent to vision-capable models. */
+export type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; mimeType: string; /** Base64-encoded. */ data: string };
+
+/** Provider-neutral chat message. Adapters translate to their wire format. */
+export type ChatMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string | ContentPart[] }
+  | { role: "assistant"; content: string | null; toolCalls?: ToolCall[] }
+  | { role: "tool"; toolCallId: string; content: string };
+
+export interface TokenUsage {
+  promptTokens: number;
+  cachedPromptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatRequest {
+  /** Model name as understood by the provider. */
+  model: string;
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  signal?: AbortSignal;
+}
+
+/**
+ * Streamed output of one completion. Tool calls are yielded once fully
+ * assembled, after the text that preceded them.
+ */
+export type ChatStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; toolCall: ToolCall }
+  | { type: "usage"; usage: TokenUsage };
+
+export interface LlmProvider {
+  /** Shown to users in error messages, e.g. "OpenAI". */
+  readonly label: string;
+  /** Host the requests go to, e.g. "api.openai.com". */
+  readonly endpoint: string;
+  streamChat(request: ChatRequest): AsyncIterable<ChatStreamEvent>;
+  complete(request: Omit<ChatRequest, "tools">): Promise<{ content: string; usage?: TokenUsage }>;
+  /** Turns a thrown API error into a message fit for the chat UI. */
+  describeError(error: unknown): string;
+  /** Checks that the API is reachable and accepts the key, without generating tokens. */
+  ping(signal?: AbortSignal): Promise<void>;
+}
+
+export interface ProviderConfig {
+  type: "openai" | "openai-compatible" | "anthropic";
+  baseUrl?: string;
+  /** Name of the environment variable holding the API key. */
+  apiKeyEnv?: string;
+  /** Upstream model name, when it differs from the name in the settings panel. */
+  model?: string;
+  /** Whether the upstream model accepts images; defaults to the settings-panel model's capability. */
+  vision?: boolean;
+}
+
+export class ProviderConfigError extends Error {}
@@ -0,0 +1,71 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export interface Span {
+  /** Logs the span with its duration and returns the duration in milliseconds. */
+  end: (fields?: LogFields) => number;
+}
+
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+  /** A logger that adds `fields`, such as the request ID, to every entry. */
+  child: (fields: LogFields) => Logger;
+  /** Starts timing `name`. An `error` field passed to `end` logs the span as an error. */
+  startSpan: (name: string, fields?: LogFields) => Span;
+}
+
+function minLevel(): number {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined;
+  return LEVELS[level && level in LEVELS ? level : "info"];
+}
+
+// Errors do not survive JSON.stringify, so keep what is useful in a log line.
+function serialize(value: unknown): unknown {
+  return value instanceof Error ? { name: value.name, message: value.message } : value;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields) {
+  if (LEVELS[level] < minLevel()) return;
+  const entry: LogFields = { time: new Date().toISOString(), level, msg: message };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) entry[key] = serialize(value);
+  }
+  const line = JSON.stringify(entry);
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
+
+function createLogger(base: LogFields): Logger {
+  return {
+    debug: (message, fields) => write("debug", message, { ...base, ...fields }),
+    info: (message, fields) => write("info", message, { ...base, ...fields }),
+    warn: (message, fields) => write("warn", message, { ...base, ...fields }),
+    error: (message, fields) => write("error", message, { ...base, ...fields }),
+    child: (fields) => createLogger({ ...base, ...fields }),
+    startSpan(name, fields) {
+      const startedAt = performance.now();
+      return {
+        end(endFields) {
+          const durationMs = Math.round(performance.now() - startedAt);
+          const all = { ...base, ...fields, ...endFields, span: name, durationMs };
+          write(endFields?.error ? "error" : "info", name, all);
+          return durationMs;
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Structured logger writing one JSON object per line, which Workers Logs and
+ * most log pipelines index by field. `LOG_LEVEL` sets the minimum level.
+ */
+export const logger = createLogger({});
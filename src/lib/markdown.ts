@@ -0,0 +1,36 @@
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/;
+const PARTIAL_LINK_PATTERN = /\[([^\]]*)\]\([^)]*$/;
+
+function countOutsideCode(line: string, marker: string): number {
+  const withoutCode = line.replace(/`[^`]*`/g, "");
+  return withoutCode.split(marker).length - 1;
+}
+
+/**
+ * Closes the constructs a reply that is still streaming has opened but not
+ * yet finished, so the rendered markdown only ever grows: an open code fence
+ * stays a code block instead of flipping the rest of the reply into
+ * paragraphs and back, and half-typed emphasis, inline code, links and table
+ * rows are held back or closed until the rest arrives.
+ */
+export function closeOpenMarkdown(text: string): string {
+  const lines = text.split("\n");
+  let openFence: string | null = null;
+  for (const line of lines) {
+    const fence = line.match(FENCE_PATTERN)?.[1];
+    if (!fence) continue;
+    if (!openFence) openFence = fence;
+    else if (fence[0] === openFence[0] && fence.length >= openFence.length) openFence = null;
+  }
+  if (openFence) return `${text}\n${openFence}`;
+
+  let last = lines.pop() ?? "";
+  if (last.trimStart().startsWith("|") && !last.trimEnd().endsWith("|")) {
+    last = "";
+  } else {
+    last = last.replace(PARTIAL_LINK_PATTERN, "$1");
+    if (countOutsideCode(last, "`") > 0) last += "`";
+    if (countOutsideCode(last, "**") % 2 === 1) last += "**";
+  }
+  return [...lines, last].join("\n");
+}
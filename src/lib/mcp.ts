@@ -0,0 +1,272 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport, StreamableHTTPError } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpError, ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "@/lib/logger";
+
+const DEFAULT_TOOLS_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_SERVER_NAME = "default";
+const SERVER_NAME_PATTERN = /^[A-Za-z0-9-]+$/;
+
+export const TOOL_NAMESPACE_SEPARATOR = "__";
+
+export interface McpServerConfig {
+  name: string;
+  url: string;
+  headers?: Record<string, string>;
+  /** Tool names (`*` wildcards allowed) that need the customer's approval before running. */
+  requireConfirmation?: string[];
+}
+
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+  annotations?: { readOnlyHint?: boolean; destructiveHint?: boolean };
+}
+
+export interface McpContentPart {
+  type?: string;
+  text?: string;
+  /** Base64 payload of `image` and `audio` parts. */
+  data?: string;
+  mimeType?: string;
+  /** Embedded content of a `resource` part. */
+  resource?: { uri: string; mimeType?: string; text?: string; blob?: string };
+  /** Target of a `resource_link` part. */
+  uri?: string;
+  name?: string;
+}
+
+export interface McpToolResult {
+  content?: McpContentPart[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/**
+ * Keeps one MCP session open per server URL so tool listing and tool calls
+ * reuse the same handshake across chat turns. The tool catalog is cached until
+ * its TTL expires or the server sends `notifications/tools/list_changed`.
+ */
+export class McpConnection {
+  private client: Client | null = null;
+  private connecting: Promise<Client> | null = null;
+  // Bumped by close(), so a handshake still in flight when it ran is dropped instead of kept.
+  private generation = 0;
+  private toolsCache: { tools: McpTool[]; expiresAt: number } | null = null;
+
+  constructor(
+    private readonly server: McpServerConfig,
+    private readonly toolsTtlMs: number = DEFAULT_TOOLS_TTL_MS
+  ) {}
+
+  /** Opens the session unless one is open already; resolves to false when it reused one. */
+  async ensureConnected(): Promise<boolean> {
+    if (this.client) return false;
+    await this.connect();
+    return true;
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    if (this.toolsCache && this.toolsCache.expiresAt > Date.now()) {
+      return this.toolsCache.tools;
+    }
+
+    const { tools } = await this.withReconnect((client) => client.listTools());
+    this.toolsCache = { tools: tools || [], expiresAt: Date.now() + this.toolsTtlMs };
+    return this.toolsCache.tools;
+  }
+
+  /**
+   * Calls a tool. With `replay: false` the call is only sent again on a fresh
+   * session when the first attempt cannot have reached the tool, so a tool with
+   * side effects never runs twice.
+   */
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    options: { signal?: AbortSignal; replay?: boolean } = {}
+  ): Promise<McpToolResult> {
+    const { signal, replay = true } = options;
+    const result = await this.withReconnect(
+      (client) => client.callTool({ name, arguments: args }, undefined, { signal }),
+      { signal, replay }
+    );
+    return result as McpToolResult;
+  }
+
+  invalidateTools() {
+    this.toolsCache = null;
+  }
+
+  async close() {
+    const client = this.client;
+    this.generation++;
+    this.connecting = null;
+    this.reset();
+    await client?.close().catch(() => undefined);
+  }
+
+  private async withReconnect<T>(
+    operation: (client: Client) => Promise<T>,
+    options: { signal?: AbortSignal; replay?: boolean } = {}
+  ): Promise<T> {
+    const { signal, replay = true } = options;
+    const client = await this.connect();
+    try {
+      return await operation(client);
+    } catch (error) {
+      // JSON-RPC errors mean the session is healthy and the server rejected the request.
+      if (error instanceof McpError || signal?.aborted) throw error;
+      // A dropped connection or response may come after the server has run the request.
+      if (!replay && !wasNotDelivered(error)) throw error;
+
+      // Otherwise the server may have restarted or expired our session; retry once on a fresh one.
+      logger.warn("MCP request failed, reconnecting", { server: this.server.name, error });
+      await this.close();
+      return operation(await this.connect());
+    }
+  }
+
+  private connect(): Promise<Client> {
+    if (this.client) return Promise.resolve(this.client);
+    if (this.connecting) return this.connecting;
+
+    const generation = this.generation;
+    const connecting = (async () => {
+      const transport = new StreamableHTTPClientTransport(new URL(this.server.url), {
+        requestInit: this.server.headers ? { headers: this.server.headers } : undefined,
+      });
+      const client = new Client({ name: "support-chat", version: "1.0.0" });
+
+      client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+        this.invalidateTools();
+      });
+      client.onclose = () => {
+        if (this.client === client) this.reset();
+      };
+
+      await client.connect(transport);
+      if (generation !== this.generation) {
+        await client.close().catch(() => undefined);
+        throw new Error("Not connected");
+      }
+      this.client = client;
+      return client;
+    })().finally(() => {
+      if (this.connecting === connecting) this.connecting = null;
+    });
+
+    this.connecting = connecting;
+    return connecting;
+  }
+
+  private reset() {
+    this.client = null;
+    this.toolsCache = null;
+  }
+}
+
+/**
+ * True when a request certainly did not reach the server's handler: the
+ * session was closed, the connection was refused, or the server turned the
+ * HTTP request away (e.g. 404 for an expired session).
+ */
+function wasNotDelivered(error: unknown): boolean {
+  if (error instanceof StreamableHTTPError) {
+    const status = error.code ?? 0;
+    return status >= 400 && status < 500;
+  }
+  const err = error as { message?: string; cause?: { code?: string } };
+  return err?.message === "Not connected" || ["ECONNREFUSED", "ENOTFOUND"].includes(err?.cause?.code ?? "");
+}
+
+/**
+ * Reads the MCP server list from `MCP_SERVERS`, a JSON array of
+ * `{ name, url, headers?, requireConfirmation? }`. Falls back to a single
+ * server from `MCP_SERVER_URL` (with `MCP_REQUIRE_CONFIRMATION` as a
+ * comma-separated list) so existing deployments keep working.
+ */
+export function getMcpServers(): McpServerConfig[] {
+  const raw = process.env.MCP_SERVERS;
+  if (!raw) {
+    const url = process.env.MCP_SERVER_URL;
+    const requireConfirmation = (process.env.MCP_REQUIRE_CONFIRMATION || "")
+      .split(",")
+      .map((pattern) => pattern.trim())
+      .filter(Boolean);
+    return url ? [{ name: DEFAULT_SERVER_NAME, url, requireConfirmation }] : [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("MCP_SERVERS must be a JSON array of { name, url, headers? }");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("MCP_SERVERS must be a JSON array of { name, url, headers? }");
+  }
+
+  const names = new Set<string>();
+  return parsed.map((entry, i) => {
+    const { name, url, headers, requireConfirmation } = (entry || {}) as Partial<McpServerConfig>;
+    if (typeof name !== "string" || !SERVER_NAME_PATTERN.test(name)) {
+      throw new Error(`MCP_SERVERS[${i}]: name must contain only letters, digits and hyphens`);
+    }
+    if (names.has(name)) {
+      throw new Error(`MCP_SERVERS[${i}]: duplicate server name "${name}"`);
+    }
+    if (typeof url !== "string" || !URL.canParse(url)) {
+      throw new Error(`MCP_SERVERS[${i}]: url must be an absolute URL`);
+    }
+    if (
+      requireConfirmation !== undefined &&
+      (!Array.isArray(requireConfirmation) || !requireConfirmation.every((p) => typeof p === "string"))
+    ) {
+      throw new Error(`MCP_SERVERS[${i}]: requireConfirmation must be an array of tool names`);
+    }
+    names.add(name);
+    return { name, url, headers, requireConfirmation };
+  });
+}
+
+/**
+ * Side-effecting tools must be approved by the customer before they run. A
+ * tool qualifies when the server config lists it or the server marks it with
+ * the `destructiveHint` annotation.
+ */
+export function requiresConfirmation(server: McpServerConfig, tool: McpTool): boolean {
+  if (tool.annotations?.destructiveHint === true) return true;
+  return (server.requireConfirmation || []).some((pattern) => {
+    const regex = new RegExp(`^${pattern.split("*").map(escapeRegExp).join(".*")}$`);
+    return regex.test(tool.name);
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function namespaceToolName(serverName: string, toolName: string): string {
+  return `${serverName}${TOOL_NAMESPACE_SEPARATOR}${toolName}`;
+}
+
+export function parseNamespacedToolName(name: string): { serverName: string; toolName: string } | null {
+  const index = name.indexOf(TOOL_NAMESPACE_SEPARATOR);
+  if (index <= 0) return null;
+  return { serverName: name.slice(0, index), toolName: name.slice(index + TOOL_NAMESPACE_SEPARATOR.length) };
+}
+
+const connections = new Map<string, McpConnection>();
+
+export function getMcpConnection(server: McpServerConfig): McpConnection {
+  const key = `${server.name}:${server.url}`;
+  let connection = connections.get(key);
+  if (!connection) {
+    const ttl = parseInt(process.env.MCP_TOOLS_CACHE_TTL_MS || "", 10);
+    connection = new McpConnection(server, Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_TOOLS_TTL_MS);
+    connections.set(key, connection);
+  }
+  return connection;
+}
@@ -0,0 +1,68 @@
+import { countTokens as countO200kTokens } from "gpt-tokenizer/encoding/o200k_base";
+import type { ChatModel } from "@/lib/chat-contract";
+
+const TOKENIZERS = {
+  o200k_base: countO200kTokens,
+};
+
+/** USD per million tokens. */
+export interface ModelPricing {
+  input: number;
+  cachedInput: number;
+  output: number;
+}
+
+export interface ModelConfig {
+  tokenizer: keyof typeof TOKENIZERS;
+  contextWindow: number;
+  /** Conversation history above this many tokens is condensed into a summary. */
+  historyTokenBudget: number;
+  pricing: ModelPricing;
+  /** Accepts image inputs. */
+  vision: boolean;
+}
+
+export const MODEL_CONFIG: Record<ChatModel, ModelConfig> = {
+  "gpt-5.2": {
+    tokenizer: "o200k_base",
+    contextWindow: 400_000,
+    historyTokenBudget: 32_000,
+    pricing: { input: 1.75, cachedInput: 0.175, output: 14 },
+    vision: true,
+  },
+  "gpt-5-mini": {
+    tokenizer: "o200k_base",
+    contextWindow: 400_000,
+    historyTokenBudget: 24_000,
+    pricing: { input: 0.25, cachedInput: 0.025, output: 2 },
+    vision: true,
+  },
+  "gpt-5-nano": {
+    tokenizer: "o200k_base",
+    contextWindow: 400_000,
+    historyTokenBudget: 16_000,
+    pricing: { input: 0.05, cachedInput: 0.005, output: 0.4 },
+    vision: true,
+  },
+};
+
+/** Pricing for any model name, including helper models such as SUMMARY_MODEL. */
+export function getModelPricing(model: string): ModelPricing | undefined {
+  return (MODEL_CONFIG as Record<string, ModelConfig | undefined>)[model]?.pricing;
+}
+
+/** Capabilities of any model name; unknown models are assumed to be text-only. */
+export function getModelCapabilities(model: string): { vision: boolean } {
+  return { vision: (MODEL_CONFIG as Record<string, ModelConfig | undefined>)[model]?.vision ?? false };
+}
+
+// Role markers and separators the chat format adds around every message.
+const TOKENS_PER_MESSAGE = 4;
+
+export function countTokens(model: ChatModel, text: string): number {
+  return TOKENIZERS[MODEL_CONFIG[model].tokenizer](text);
+}
+
+export function countMessageTokens(model: ChatModel, messages: Array<{ content: string }>): number {
+  return messages.reduce((sum, m) => sum + TOKENS_PER_MESSAGE + countTokens(model, m.content), 0);
+}
@@ -0,0 +1,128 @@
+import { getCloudflareEnv } from "@/lib/cloudflare";
+import { KvRateLimitStore } from "./kv-store";
+import { MemoryRateLimitStore } from "./memory-store";
+import type { BucketLimit, BucketState, RateLimitResult, RateLimitStore } from "./types";
+
+export type { RateLimitResult } from "./types";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const DEFAULT_REQUESTS_PER_MINUTE = 20;
+const DEFAULT_TOKENS_PER_DAY = 200_000;
+
+const globalForStore = globalThis as typeof globalThis & { __rateLimitStore?: MemoryRateLimitStore };
+
+function getRateLimitStore(): RateLimitStore {
+  const kv = getCloudflareEnv()?.RATE_LIMITS;
+  if (kv) return new KvRateLimitStore(kv);
+
+  globalForStore.__rateLimitStore ??= new MemoryRateLimitStore();
+  return globalForStore.__rateLimitStore;
+}
+
+function readLimit(name: string, fallback: number): number {
+  const parsed = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function requestLimit(): BucketLimit {
+  const perMinute = readLimit("RATE_LIMIT_REQUESTS_PER_MINUTE", DEFAULT_REQUESTS_PER_MINUTE);
+  return { capacity: perMinute, refillPerMs: perMinute / MINUTE_MS };
+}
+
+function tokenLimit(): BucketLimit {
+  const perDay = readLimit("RATE_LIMIT_TOKENS_PER_DAY", DEFAULT_TOKENS_PER_DAY);
+  return { capacity: perDay, refillPerMs: perDay / DAY_MS };
+}
+
+/** Tokens in the bucket now, after refilling for the time since its last update. */
+function available(state: BucketState | null, limit: BucketLimit, now: number): number {
+  if (!state) return limit.capacity;
+  return Math.min(limit.capacity, state.tokens + (now - state.updatedAt) * limit.refillPerMs);
+}
+
+/** Keeps the bucket around until it would have refilled completely. */
+function save(store: RateLimitStore, key: string, limit: BucketLimit, tokens: number, now: number) {
+  const ttlSeconds = (limit.capacity - tokens) / limit.refillPerMs / 1000;
+  return store.set(key, { tokens, updatedAt: now }, ttlSeconds);
+}
+
+/** Takes `cost` from the bucket. A cost of 0 only checks that the bucket is not empty. */
+async function take(store: RateLimitStore, key: string, limit: BucketLimit, cost: number) {
+  const now = Date.now();
+  const tokens = available(await store.get(key), limit, now);
+
+  const required = Math.max(cost, 1);
+  if (tokens < required) {
+    return { allowed: false, retryAfterMs: (required - tokens) / limit.refillPerMs };
+  }
+
+  if (cost > 0) await save(store, key, limit, tokens - cost, now);
+  return { allowed: true, retryAfterMs: 0 };
+}
+
+/**
+ * Checks a chat request against every key (client IP and session). Each key
+ * spends one request from its per-minute bucket and must still have budget
+ * left in its per-day token bucket.
+ */
+export async function checkRateLimit(keys: string[]): Promise<RateLimitResult> {
+  const store = getRateLimitStore();
+
+  for (const key of keys) {
+    const tokens = await take(store, `tokens:${key}`, tokenLimit(), 0);
+    if (!tokens.allowed) {
+      return { allowed: false, limit: "tokens", retryAfterSeconds: Math.ceil(tokens.retryAfterMs / 1000) };
+    }
+  }
+
+  for (const key of keys) {
+    const requests = await take(store, `requests:${key}`, requestLimit(), 1);
+    if (!requests.allowed) {
+      return { allowed: false, limit: "requests", retryAfterSeconds: Math.ceil(requests.retryAfterMs / 1000) };
+    }
+  }
+
+  return { allowed: true, retryAfterSeconds: 0 };
+}
+
+/** Charges tokens used by a finished chat turn against each key's daily budget. */
+export async function recordTokenUsage(keys: string[], tokens: number): Promise<void> {
+  if (tokens <= 0) return;
+  const store = getRateLimitStore();
+  const limit = tokenLimit();
+  const now = Date.now();
+
+  for (const key of keys) {
+    const bucketKey = `tokens:${key}`;
+    // Usage is only known after the fact, so the bucket may go negative and block until it refills.
+    const remaining = available(await store.get(bucketKey), limit, now) - tokens;
+    await save(store, bucketKey, limit, remaining, now);
+  }
+}
+
+/** The 429 response for a request `checkRateLimit` turned down. */
+export function rateLimitResponse(result: RateLimitResult): Response {
+  const error =
+    result.limit === "tokens"
+      ? "Daily usage limit reached. Please try again later."
+      : "Too many messages. Please wait before sending another.";
+  return Response.json(
+    { error, limit: result.limit, retryAfter: result.retryAfterSeconds },
+    { status: 429, headers: { "Retry-After": String(result.retryAfterSeconds) } }
+  );
+}
+
+/**
+ * The client IP and session to limit. The session cookie can simply be
+ * dropped, so the IP is what holds: Cloudflare's `cf-connecting-ip`, else the
+ * `x-forwarded-for` hop our proxy appended (the last one; earlier entries
+ * come from the client and can be anything).
+ */
+export function getRateLimitKeys(request: Request, clientId: string): string[] {
+  const ip =
+    request.headers.get("cf-connecting-ip") ||
+    request.headers.get("x-forwarded-for")?.split(",").pop()?.trim() ||
+    request.headers.get("x-real-ip");
+  return ip ? [`ip:${ip}`, `client:${clientId}`] : [`client:${clientId}`];
+}
@@ -0,0 +1,18 @@
+import type { BucketState, RateLimitStore } from "./types";
+
+// KV rejects expirations shorter than a minute.
+const MIN_KV_TTL_SECONDS = 60;
+
+export class KvRateLimitStore implements RateLimitStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async get(key: string): Promise<BucketState | null> {
+    return this.kv.get<BucketState>(`ratelimit:${key}`, "json");
+  }
+
+  async set(key: string, state: BucketState, ttlSeconds: number): Promise<void> {
+    await this.kv.put(`ratelimit:${key}`, JSON.stringify(state), {
+      expirationTtl: Math.max(MIN_KV_TTL_SECONDS, Math.ceil(ttlSeconds)),
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import type { BucketState, RateLimitStore } from "./types";
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { state: BucketState; expiresAt: number }>();
+  private nextSweepAt = Date.now() + SWEEP_INTERVAL_MS;
+
+  async get(key: string): Promise<BucketState | null> {
+    const entry = this.buckets.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.buckets.delete(key);
+      return null;
+    }
+    return entry.state;
+  }
+
+  async set(key: string, state: BucketState, ttlSeconds: number): Promise<void> {
+    const now = Date.now();
+    this.buckets.set(key, { state, expiresAt: now + ttlSeconds * 1000 });
+    if (now >= this.nextSweepAt) this.sweep(now);
+  }
+
+  /** Drops expired buckets, which `get` only removes for keys that come back. */
+  private sweep(now: number) {
+    for (const [key, entry] of this.buckets) {
+      if (entry.expiresAt <= now) this.buckets.delete(key);
+    }
+    this.nextSweepAt = now + SWEEP_INTERVAL_MS;
+  }
+}
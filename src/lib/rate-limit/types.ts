@@ -0,0 +1,24 @@
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Persistence for token buckets. Reads and writes are not atomic across
+ * instances, so limits are approximate under heavy concurrency.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<BucketState | null>;
+  set(key: string, state: BucketState, ttlSeconds: number): Promise<void>;
+}
+
+export interface BucketLimit {
+  capacity: number;
+  refillPerMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+  limit?: "requests" | "tokens";
+}
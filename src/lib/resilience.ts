@@ -0,0 +1,243 @@
+const DEFAULT_BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 10_000;
+
+export class TimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(
+    readonly key: string,
+    readonly retryAfterMs: number
+  ) {
+    super(`${key} is failing; requests are paused for ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/** A non-negative integer from the environment, or `fallback` when it is unset or invalid. */
+export function readIntEnv(name: string, fallback: number): number {
+  const parsed = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Runs `operation` with a signal that aborts after `timeoutMs` or when
+ * `signal` does, and rejects with TimeoutError on the timeout even if the
+ * operation ignores the signal. Aborts of `signal` reject with its reason.
+ */
+export async function withTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    return await Promise.race([
+      operation(controller.signal),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const error = new TimeoutError(timeoutMs);
+          controller.abort(error);
+          reject(error);
+        }, timeoutMs);
+        controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true });
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/** Full-jitter exponential backoff: a random delay up to base * 2^(attempt - 1), capped. */
+export function backoffDelay(attempt: number, baseDelayMs = readIntEnv("RETRY_BASE_DELAY_MS", DEFAULT_BASE_DELAY_MS)): number {
+  return Math.random() * Math.min(MAX_DELAY_MS, baseDelayMs * 2 ** (attempt - 1));
+}
+
+/**
+ * Yields the events of the stream `open` starts, aborting it with TimeoutError
+ * when no event arrives for `idleMs` (which covers the wait for the first one).
+ */
+export async function* withIdleTimeout<T>(
+  open: (signal: AbortSignal) => AsyncIterable<T>,
+  idleMs: number,
+  signal?: AbortSignal
+): AsyncGenerator<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const arm = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => controller.abort(new TimeoutError(idleMs)), idleMs);
+  };
+
+  try {
+    arm();
+    for await (const event of open(controller.signal)) {
+      arm();
+      yield event;
+    }
+  } catch (error) {
+    // The client reports our abort as its own abort error; surface the timeout instead.
+    if (controller.signal.reason instanceof TimeoutError) throw controller.signal.reason;
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/** Resolves after `ms`, or rejects with the abort reason as soon as `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Calls `operation` until it succeeds, retrying errors `isRetryable` accepts
+ * up to `retries` times with exponential backoff. Never retries once `signal`
+ * is aborted.
+ */
+export async function retry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: {
+    retries: number;
+    isRetryable: (error: unknown) => boolean;
+    signal?: AbortSignal;
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  }
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (options.signal?.aborted || attempt > options.retries || !options.isRetryable(error)) throw error;
+      const delayMs = backoffDelay(attempt);
+      options.onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
+
+/**
+ * True for failures worth retrying: timeouts, network errors and the HTTP
+ * statuses upstream APIs use for overload (408, 409, 429, 5xx, 529).
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof TimeoutError) return true;
+  const err = error as {
+    status?: number;
+    code?: string | number;
+    cause?: { code?: string };
+    name?: string;
+    message?: string;
+  };
+  // API clients report the HTTP status as `status`; the MCP transport reports it as a positive `code`.
+  const status = err?.status ?? (typeof err?.code === "number" && err.code > 0 ? err.code : undefined);
+  if (status !== undefined) {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  const code = typeof err?.code === "string" ? err.code : err?.cause?.code;
+  return (
+    ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "ENOTFOUND", "UND_ERR_SOCKET"].includes(code || "") ||
+    err?.name === "APIConnectionError" ||
+    err?.name === "APIConnectionTimeoutError" ||
+    (err?.name === "TypeError" && err.message === "fetch failed")
+  );
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+interface CircuitOptions {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+  /** How long an open circuit rejects calls before letting one trial call through. */
+  cooldownMs: number;
+}
+
+/**
+ * Stops calling an upstream that keeps failing. After `failureThreshold`
+ * consecutive failures the circuit opens and calls fail fast; after
+ * `cooldownMs` one trial call is let through, which closes the circuit on
+ * success and reopens it on failure.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    readonly key: string,
+    private readonly options: CircuitOptions
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return "closed";
+    return Date.now() - this.openedAt >= this.options.cooldownMs ? "half_open" : "open";
+  }
+
+  /** Throws CircuitOpenError while the circuit is open or its trial call is still running. */
+  async run<T>(operation: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
+    const state = this.state;
+    if (state === "open" || (state === "half_open" && this.trialInFlight)) {
+      throw new CircuitOpenError(this.key, Math.max(0, (this.openedAt ?? 0) + this.options.cooldownMs - Date.now()));
+    }
+    const trial = state === "half_open";
+    if (trial) this.trialInFlight = true;
+
+    try {
+      const result = await operation();
+      this.failures = 0;
+      this.openedAt = null;
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.failures++;
+        if (trial || this.failures >= this.options.failureThreshold) this.openedAt = Date.now();
+      } else if (trial) {
+        // The upstream answered, so it is reachable again.
+        this.failures = 0;
+        this.openedAt = null;
+      }
+      throw error;
+    } finally {
+      if (trial) this.trialInFlight = false;
+    }
+  }
+}
+
+// Kept on globalThis so every request in this instance shares the breakers;
+// like tool approvals, their state is not shared across instances.
+const globalForBreakers = globalThis as typeof globalThis & { __circuitBreakers?: Map<string, CircuitBreaker> };
+const breakers = (globalForBreakers.__circuitBreakers ??= new Map<string, CircuitBreaker>());
+
+export function getCircuitBreaker(key: string): CircuitBreaker {
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(key, {
+      failureThreshold: Math.max(1, readIntEnv("CIRCUIT_FAILURE_THRESHOLD", 5)),
+      cooldownMs: readIntEnv("CIRCUIT_COOLDOWN_MS", 30_000),
+    });
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
@@ -0,0 +1,30 @@
+/**
+ * Reads `data: {json}` events from a streaming response until it ends, for
+ * streams opened with fetch (which, unlike EventSource, can send headers).
+ * `onEvent` also gets the event's `id:` field, if it has one, for resuming
+ * with `Last-Event-ID`.
+ */
+export async function readSseEvents<T>(response: Response, onEvent: (event: T, id?: string) => void): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error("No reader available");
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const chunks = buffer.split("\n\n");
+    buffer = chunks.pop() || "";
+
+    for (const chunk of chunks) {
+      let id: string | undefined;
+      for (const line of chunk.split("\n")) {
+        if (line.startsWith("id: ")) id = line.slice(4);
+        else if (line.startsWith("data: ")) onEvent(JSON.parse(line.slice(6)) as T, id);
+      }
+    }
+  }
+}
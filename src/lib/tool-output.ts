@@ -0,0 +1,336 @@
+import type { McpToolResult } from "@/lib/mcp";
+
+const MAX_CARDS = 12;
+const MAX_IMAGES = 6;
+const MAX_RESOURCES = 10;
+// Roughly 512 KB once decoded; larger images are described to the model but not stored with the message.
+const MAX_INLINE_IMAGE_LENGTH = 700_000;
+const MAX_RESOURCE_PREVIEW_LENGTH = 500;
+const INLINE_IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif"];
+const ORDER_STEPS = ["placed", "processing", "shipped", "out_for_delivery", "delivered"];
+const ORDER_STATUS_ALIASES: Record<string, string> = {
+  pending: "placed",
+  confirmed: "processing",
+  packed: "processing",
+  dispatched: "shipped",
+  in_transit: "shipped",
+};
+
+export interface Money {
+  amount: number;
+  currency?: string;
+}
+
+export type StockStatus = "in_stock" | "low_stock" | "out_of_stock";
+
+export interface ProductCard {
+  kind: "product";
+  id?: string;
+  name: string;
+  price?: Money;
+  image?: string;
+  stock?: { status: StockStatus; quantity?: number };
+  url?: string;
+}
+
+export interface OrderTimelineStep {
+  status: string;
+  at?: string;
+  reached: boolean;
+}
+
+export interface OrderCard {
+  kind: "order";
+  id: string;
+  status: string;
+  placedAt?: string;
+  total?: Money;
+  items?: Array<{ name: string; quantity?: number }>;
+  timeline: OrderTimelineStep[];
+  tracking?: { carrier?: string; number?: string; url?: string };
+}
+
+export interface ReturnCard {
+  kind: "return";
+  id: string;
+  status: string;
+  orderId?: string;
+  reason?: string;
+  refund?: Money;
+  createdAt?: string;
+  labelUrl?: string;
+}
+
+export type RichCard = ProductCard | OrderCard | ReturnCard;
+
+export interface ToolImage {
+  /** A `data:` URL for images the tool returned inline, otherwise an https URL. */
+  src: string;
+  alt?: string;
+}
+
+export interface ToolResource {
+  uri: string;
+  name?: string;
+  mimeType?: string;
+  preview?: string;
+}
+
+/** What the chat UI renders for a tool result, next to the text the model receives. */
+export interface ToolOutput {
+  cards?: RichCard[];
+  images?: ToolImage[];
+  resources?: ToolResource[];
+}
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Tools answer in either casing; `tracking_url` and `trackingUrl` are read alike.
+function camelKeys(value: Fields): Fields {
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [key.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase()), v])
+  );
+}
+
+function pick(fields: Fields, ...keys: string[]): unknown {
+  for (const key of keys) {
+    if (fields[key] !== undefined && fields[key] !== null && fields[key] !== "") return fields[key];
+  }
+  return undefined;
+}
+
+function str(value: unknown): string | undefined {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number") return String(value);
+  return undefined;
+}
+
+function num(value: unknown): number | undefined {
+  const parsed = typeof value === "string" ? parseFloat(value.replace(/[^0-9.-]/g, "")) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function httpUrl(value: unknown): string | undefined {
+  const raw = str(value);
+  if (!raw) return undefined;
+  try {
+    const url = new URL(raw);
+    return url.protocol === "https:" || url.protocol === "http:" ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function money(value: unknown, currency?: unknown): Money | undefined {
+  if (isObject(value)) return money(pick(value, "amount", "value"), pick(value, "currency", "currencyCode"));
+  const amount = num(value);
+  if (amount === undefined) return undefined;
+  const symbol = typeof value === "string" ? value.match(/^\s*([$€£])/)?.[1] : undefined;
+  const code = str(currency) ?? (symbol && { $: "USD", "€": "EUR", "£": "GBP" }[symbol]);
+  return { amount, currency: code?.toUpperCase() };
+}
+
+function statusKey(value: string): string {
+  return value.toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+function toProduct(fields: Fields): ProductCard | null {
+  const name = str(pick(fields, "name", "title", "productName"));
+  if (!name) return null;
+
+  const quantity = num(pick(fields, "stock", "quantity", "inventory", "stockQuantity", "available"));
+  const inStock = pick(fields, "inStock", "available");
+  const rawStatus = str(pick(fields, "stockStatus", "availability"));
+  let status: StockStatus | undefined;
+  if (rawStatus) {
+    const key = statusKey(rawStatus);
+    status = key.includes("out") ? "out_of_stock" : key.includes("low") ? "low_stock" : "in_stock";
+  } else if (quantity !== undefined) {
+    status = quantity <= 0 ? "out_of_stock" : quantity <= 5 ? "low_stock" : "in_stock";
+  } else if (typeof inStock === "boolean") {
+    status = inStock ? "in_stock" : "out_of_stock";
+  }
+
+  const images = pick(fields, "images");
+  return {
+    kind: "product",
+    id: str(pick(fields, "id", "sku", "productId")),
+    name,
+    price: money(pick(fields, "price", "salePrice", "unitPrice"), fields.currency),
+    image: httpUrl(pick(fields, "image", "imageUrl", "thumbnail", "thumbnailUrl") ?? (Array.isArray(images) ? images[0] : undefined)),
+    stock: status && { status, quantity },
+    url: httpUrl(pick(fields, "url", "productUrl", "link")),
+  };
+}
+
+function toTimeline(fields: Fields, status: string): OrderTimelineStep[] {
+  const events = pick(fields, "timeline", "events", "history", "statusHistory");
+  if (Array.isArray(events) && events.length > 0) {
+    return events.filter(isObject).flatMap((event) => {
+      const entry = camelKeys(event);
+      const label = str(pick(entry, "status", "label", "description", "event"));
+      return label ? [{ status: label, at: str(pick(entry, "at", "date", "timestamp", "time")), reached: true }] : [];
+    });
+  }
+
+  const key = statusKey(status);
+  const current = ORDER_STEPS.indexOf(ORDER_STATUS_ALIASES[key] ?? key);
+  if (current === -1) return [{ status, reached: true }];
+  return ORDER_STEPS.map((step, i) => ({
+    status: step.replace(/_/g, " "),
+    at: i === 0 ? str(pick(fields, "placedAt", "createdAt", "orderDate", "date")) : undefined,
+    reached: i <= current,
+  }));
+}
+
+function toOrder(fields: Fields): OrderCard | null {
+  const id = str(pick(fields, "orderId", "orderNumber", "id"));
+  const status = str(pick(fields, "status", "orderStatus"));
+  if (!id || !status) return null;
+
+  const tracking = isObject(fields.tracking) ? camelKeys(fields.tracking) : fields;
+  const carrier = str(pick(tracking, "carrier", "shippingCarrier"));
+  const number = str(pick(tracking, "trackingNumber", "number"));
+  const trackingUrl = httpUrl(pick(tracking, "trackingUrl", "url"));
+  const items = Array.isArray(fields.items)
+    ? fields.items.filter(isObject).flatMap((item) => {
+        const entry = camelKeys(item);
+        const name = str(pick(entry, "name", "title", "productName"));
+        return name ? [{ name, quantity: num(pick(entry, "quantity", "qty")) }] : [];
+      })
+    : undefined;
+
+  return {
+    kind: "order",
+    id,
+    status,
+    placedAt: str(pick(fields, "placedAt", "createdAt", "orderDate", "date")),
+    total: money(pick(fields, "total", "totalPrice", "amount"), fields.currency),
+    items: items?.length ? items : undefined,
+    timeline: toTimeline(fields, status),
+    tracking: carrier || number || trackingUrl ? { carrier, number, url: trackingUrl } : undefined,
+  };
+}
+
+function toReturn(fields: Fields): ReturnCard | null {
+  const id = str(pick(fields, "returnId", "rmaNumber", "rma", "id"));
+  const status = str(pick(fields, "status", "returnStatus"));
+  if (!id || !status) return null;
+
+  return {
+    kind: "return",
+    id,
+    status,
+    orderId: str(fields.orderId),
+    reason: str(fields.reason),
+    refund: money(pick(fields, "refund", "refundAmount", "amount"), fields.currency),
+    createdAt: str(pick(fields, "createdAt", "requestedAt", "date")),
+    labelUrl: httpUrl(pick(fields, "labelUrl", "returnLabelUrl", "label")),
+  };
+}
+
+/** Recognizes a product, order or return by an explicit `kind`/`type`, or else by its fields. */
+function toCard(value: Fields): RichCard | null {
+  const fields = camelKeys(value);
+  const kind = str(pick(fields, "kind", "type"))?.toLowerCase();
+  if (kind === "product") return toProduct(fields);
+  if (kind === "order") return toOrder(fields);
+  if (kind === "return" || kind === "rma") return toReturn(fields);
+
+  if (pick(fields, "returnId", "rmaNumber", "rma") !== undefined) return toReturn(fields);
+  if (
+    pick(fields, "orderId", "orderNumber") !== undefined ||
+    (fields.status !== undefined && pick(fields, "items", "tracking", "trackingNumber", "timeline", "placedAt") !== undefined)
+  ) {
+    return toOrder(fields);
+  }
+  if (pick(fields, "price", "stock", "inStock", "sku") !== undefined) return toProduct(fields);
+  return null;
+}
+
+function extractCards(payload: unknown, depth = 0): RichCard[] {
+  if (depth > 2) return [];
+  if (Array.isArray(payload)) return payload.flatMap((item) => (isObject(item) ? extractCards(item, depth + 1) : []));
+  if (!isObject(payload)) return [];
+
+  const card = toCard(payload);
+  if (card) return [card];
+  return Object.values(payload).flatMap((value) => (Array.isArray(value) || isObject(value) ? extractCards(value, depth + 1) : []));
+}
+
+function parseJson(text: string): unknown {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return undefined;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+function inlineImage(mimeType: string | undefined, data: string | undefined, alt?: string): ToolImage | null {
+  if (!mimeType || !data || !INLINE_IMAGE_TYPES.includes(mimeType) || data.length > MAX_INLINE_IMAGE_LENGTH) return null;
+  return { src: `data:${mimeType};base64,${data}`, alt };
+}
+
+/**
+ * Splits an MCP tool result into the text the model reads and the structured
+ * output the UI renders: cards recognized in `structuredContent` or a JSON
+ * text payload, inline images, and embedded or linked resources.
+ */
+export function processToolResult(result: McpToolResult): { text: string; output?: ToolOutput } {
+  const texts: string[] = [];
+  const payloads: unknown[] = result.structuredContent ? [result.structuredContent] : [];
+  const images: ToolImage[] = [];
+  const resources: ToolResource[] = [];
+
+  for (const part of result.content ?? []) {
+    if (part.type === "image") {
+      texts.push(`[Image: ${part.mimeType ?? "unknown type"}]`);
+      const image = inlineImage(part.mimeType, part.data);
+      if (image) images.push(image);
+    } else if (part.type === "audio") {
+      texts.push(`[Audio: ${part.mimeType ?? "unknown type"}]`);
+    } else if (part.type === "resource" && part.resource) {
+      const { uri, mimeType, text, blob } = part.resource;
+      const image = inlineImage(mimeType, blob, uri);
+      if (text) {
+        texts.push(text);
+        const json = parseJson(text);
+        if (json !== undefined) payloads.push(json);
+      } else {
+        texts.push(`[Resource: ${uri}]`);
+      }
+      if (image) images.push(image);
+      else resources.push({ uri, mimeType, preview: text?.slice(0, MAX_RESOURCE_PREVIEW_LENGTH) });
+    } else if (part.type === "resource_link" && part.uri) {
+      texts.push(`[Resource link: ${part.name ?? part.uri} (${part.uri})]`);
+      resources.push({ uri: part.uri, name: part.name, mimeType: part.mimeType });
+    } else if (part.text !== undefined) {
+      texts.push(part.text);
+      const json = parseJson(part.text);
+      if (json !== undefined) payloads.push(json);
+    }
+  }
+
+  const text = texts.join("\n") || (result.structuredContent ? JSON.stringify(result.structuredContent) : JSON.stringify(result));
+  if (result.isError) return { text };
+
+  // Servers that return structuredContent are expected to repeat it as JSON text; the first payload with cards wins.
+  let cards: RichCard[] = [];
+  for (const payload of payloads) {
+    cards = extractCards(payload);
+    if (cards.length > 0) break;
+  }
+
+  const output: ToolOutput = {
+    cards: cards.length ? cards.slice(0, MAX_CARDS) : undefined,
+    images: images.length ? images.slice(0, MAX_IMAGES) : undefined,
+    resources: resources.length ? resources.slice(0, MAX_RESOURCES) : undefined,
+  };
+  return { text, output: output.cards || output.images || output.resources ? output : undefined };
+}
@@ -0,0 +1,213 @@
+import { z } from "zod";
+import { CHAT_LIMITS } from "@/lib/chat-contract";
+import type { Conversation, NewMessage, StoredMessage, ToolCallRecord } from "@/lib/conversations";
+
+export const TRANSCRIPT_FORMAT = "support-chat-transcript";
+export const TRANSCRIPT_VERSION = 1;
+export const EXPORT_FORMATS = ["markdown", "text", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const MAX_IMPORTED_MESSAGES = 500;
+export const MAX_IMPORT_BODY_BYTES = 1024 * 1024;
+
+export interface TranscriptSettings {
+  brand?: string;
+  model?: string;
+  tone?: string;
+  language?: string;
+}
+
+/** The versioned JSON export. Bump TRANSCRIPT_VERSION on breaking changes and keep importing older versions. */
+export interface Transcript {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: typeof TRANSCRIPT_VERSION;
+  exportedAt: string;
+  conversation: { title: string; createdAt: string; updatedAt: string };
+  /** Settings of the latest assistant reply, which an import restores in the chat. */
+  settings: TranscriptSettings;
+  messages: Array<{
+    role: StoredMessage["role"];
+    content: string;
+    timestamp: string;
+    agentName?: string;
+    model?: string;
+    tone?: string;
+    language?: string;
+    interrupted?: boolean;
+    attachments?: Array<{ name: string; mimeType: string; size: number }>;
+    toolCalls?: Array<Omit<ToolCallRecord, "output">>;
+  }>;
+}
+
+const ROLE_LABELS: Record<StoredMessage["role"], string> = {
+  user: "Customer",
+  assistant: "Assistant",
+  agent: "Agent",
+  error: "Error",
+};
+
+function iso(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+function speaker(message: Transcript["messages"][number]): string {
+  return message.role === "agent" && message.agentName ? `${message.agentName} (agent)` : ROLE_LABELS[message.role];
+}
+
+export function toTranscript(conversation: Conversation, brand?: string): Transcript {
+  const lastReply = conversation.messages.findLast((m) => m.role === "assistant" && m.model);
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: { title: conversation.title, createdAt: iso(conversation.createdAt), updatedAt: iso(conversation.updatedAt) },
+    settings: { brand, model: lastReply?.model, tone: lastReply?.tone, language: lastReply?.language },
+    messages: conversation.messages.map((m) => ({
+      role: m.role,
+      content: m.content,
+      timestamp: iso(m.timestamp),
+      agentName: m.agentName,
+      model: m.model,
+      tone: m.tone,
+      language: m.language,
+      interrupted: m.interrupted,
+      attachments: m.attachments?.map(({ name, mimeType, size }) => ({ name, mimeType, size })),
+      // Rendered cards are derived from the result and are not part of the transcript.
+      toolCalls: m.toolCalls?.map(({ id, name, round, arguments: args, status, approval, durationMs, result, error }) => ({
+        id,
+        name,
+        round,
+        arguments: args,
+        status,
+        approval,
+        durationMs,
+        result,
+        error,
+      })),
+    })),
+  };
+}
+
+export function toMarkdown(transcript: Transcript): string {
+  const lines = [`# ${transcript.conversation.title}`, "", `Exported ${transcript.exportedAt}`];
+  const { model, tone, language } = transcript.settings;
+  if (model) lines.push(`Model ${model}, ${tone} tone, language ${language}`);
+
+  for (const message of transcript.messages) {
+    lines.push("", `## ${speaker(message)} · ${message.timestamp}`, "");
+    for (const attachment of message.attachments ?? []) lines.push(`📎 ${attachment.name} (${attachment.mimeType})`, "");
+    for (const toolCall of message.toolCalls ?? []) {
+      lines.push(
+        `<details><summary>Tool ${toolCall.name}: ${toolCall.status}${toolCall.approval ? `, ${toolCall.approval}` : ""}</summary>`,
+        "",
+        "```json",
+        JSON.stringify(toolCall.arguments, null, 2),
+        "```",
+        "",
+        "```",
+        toolCall.error ?? toolCall.result ?? "",
+        "```",
+        "",
+        "</details>",
+        ""
+      );
+    }
+    lines.push(message.role === "error" ? `> ⚠️ ${message.content}` : message.content);
+    if (message.interrupted) lines.push("", "_Stopped before it finished._");
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export function toPlainText(transcript: Transcript): string {
+  const lines = [transcript.conversation.title, `Exported ${transcript.exportedAt}`];
+  for (const message of transcript.messages) {
+    lines.push("", `[${message.timestamp}] ${speaker(message)}:`);
+    for (const attachment of message.attachments ?? []) lines.push(`  (attached ${attachment.name})`);
+    for (const toolCall of message.toolCalls ?? []) {
+      lines.push(`  (tool ${toolCall.name} ${JSON.stringify(toolCall.arguments)}: ${toolCall.error ?? toolCall.status})`);
+    }
+    lines.push(message.content + (message.interrupted ? " [stopped]" : ""));
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+const timestamp = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Must be an ISO date")
+  .transform((value) => Date.parse(value));
+
+export const TranscriptSchema = z.object({
+  format: z.literal(TRANSCRIPT_FORMAT, { errorMap: () => ({ message: "Not a chat transcript export" }) }),
+  version: z.literal(TRANSCRIPT_VERSION, { errorMap: () => ({ message: `Unsupported version, expected ${TRANSCRIPT_VERSION}` }) }),
+  conversation: z.object({ title: z.string() }),
+  settings: z
+    .object({ brand: z.string(), model: z.string(), tone: z.string(), language: z.string() })
+    .partial()
+    .default({}),
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(["user", "assistant", "agent", "error"]),
+        content: z
+          .string()
+          .max(CHAT_LIMITS.maxMessageLength, `Message cannot be longer than ${CHAT_LIMITS.maxMessageLength} characters`),
+        timestamp,
+        agentName: z.string().max(60).optional(),
+        model: z.string().optional(),
+        tone: z.string().optional(),
+        language: z.string().optional(),
+        interrupted: z.boolean().optional(),
+        attachments: z.array(z.object({ name: z.string() })).optional(),
+        toolCalls: z
+          .array(
+            z.object({
+              id: z.string(),
+              name: z.string(),
+              round: z.number(),
+              arguments: z.record(z.unknown()).nullable(),
+              status: z.enum(["running", "success", "error"]),
+              approval: z.enum(["pending", "approved", "denied", "expired"]).optional(),
+              durationMs: z.number().optional(),
+              result: z.string().optional(),
+              error: z.string().optional(),
+            })
+          )
+          .optional(),
+      })
+    )
+    .min(1, "Transcript has no messages")
+    .max(MAX_IMPORTED_MESSAGES, `Transcript has more than ${MAX_IMPORTED_MESSAGES} messages`),
+});
+
+export type ImportedTranscript = z.infer<typeof TranscriptSchema>;
+
+/**
+ * Messages to store for an imported transcript. Attachment files are not
+ * exported, so they come back as a note with the file name. Anyone can edit
+ * a transcript, so assistant and agent replies are stored as imported
+ * replies: no agent name, model, tone or language, and not read to the model
+ * as its own turns.
+ */
+export function toImportedMessages(transcript: ImportedTranscript): NewMessage[] {
+  return transcript.messages.map(({ attachments, toolCalls, ...message }) => ({
+    ...message,
+    ...(message.role !== "user" &&
+      message.role !== "error" && {
+        role: "assistant" as const,
+        agentName: undefined,
+        model: undefined,
+        tone: undefined,
+        language: undefined,
+        imported: true,
+      }),
+    content: [message.content, ...(attachments ?? []).map((a) => `[Attached: ${a.name}]`)].filter(Boolean).join("\n\n"),
+    ...(toolCalls?.length && {
+      // A run cut off mid-tool cannot resume, and neither can an approval prompt.
+      toolCalls: toolCalls.map((toolCall) => ({
+        ...toolCall,
+        status: toolCall.status === "running" ? "error" : toolCall.status,
+        approval: toolCall.approval === "pending" ? "expired" : toolCall.approval,
+      })),
+    }),
+  }));
+}
@@ -0,0 +1,48 @@
+import { getCloudflareEnv } from "@/lib/cloudflare";
+import { KvUsageStore } from "./kv-store";
+import { MemoryUsageStore } from "./memory-store";
+import type { UsageStore } from "./types";
+
+export { UsageLedger, mergeUsage, sumUsage } from "./ledger";
+export type { DailyUsage, UsageByModel, UsageStore, UsageTotals } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const globalForStore = globalThis as typeof globalThis & { __usageStore?: MemoryUsageStore };
+
+export function getUsageStore(): UsageStore {
+  const kv = getCloudflareEnv()?.USAGE;
+  if (kv) return new KvUsageStore(kv);
+
+  globalForStore.__usageStore ??= new MemoryUsageStore();
+  return globalForStore.__usageStore;
+}
+
+/** UTC calendar day, used as the daily usage bucket. */
+export function usageDate(at: Date = new Date()): string {
+  return at.toISOString().slice(0, 10);
+}
+
+/**
+ * Reads a report's `from` and `to` query parameters (YYYY-MM-DD, UTC,
+ * inclusive; defaults to the last 30 days) and lists the days they cover.
+ */
+export function parseDateRange(params: URLSearchParams): { from: string; to: string; dates: string[] } | { error: string } {
+  const to = params.get("to") || usageDate();
+  const from = params.get("from") || usageDate(new Date(Date.parse(to) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS));
+
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to))) {
+    return { error: "from and to must be dates in YYYY-MM-DD format" };
+  }
+
+  const rangeDays = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+  if (rangeDays < 1 || rangeDays > MAX_RANGE_DAYS) {
+    return { error: `Range must cover 1 to ${MAX_RANGE_DAYS} days` };
+  }
+
+  const dates = Array.from({ length: rangeDays }, (_, i) => usageDate(new Date(Date.parse(from) + i * DAY_MS)));
+  return { from, to, dates };
+}
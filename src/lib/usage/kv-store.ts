@@ -0,0 +1,33 @@
+import { mergeUsage } from "./ledger";
+import type { DailyUsage, UsageByModel, UsageStore } from "./types";
+
+/**
+ * Cloudflare KV store with one key per day and per conversation. Concurrent
+ * turns can race on the read-modify-write, so totals are best-effort.
+ */
+export class KvUsageStore implements UsageStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async record(date: string, conversationId: string | undefined, usage: UsageByModel): Promise<void> {
+    await this.merge(`usage:day:${date}`, usage);
+    if (conversationId) await this.merge(`usage:conversation:${conversationId}`, usage);
+  }
+
+  async getDays(dates: string[]): Promise<DailyUsage[]> {
+    return Promise.all(
+      dates.map(async (date) => ({
+        date,
+        byModel: (await this.kv.get<UsageByModel>(`usage:day:${date}`, "json")) || {},
+      }))
+    );
+  }
+
+  async getConversation(conversationId: string): Promise<UsageByModel | null> {
+    return this.kv.get<UsageByModel>(`usage:conversation:${conversationId}`, "json");
+  }
+
+  private async merge(key: string, usage: UsageByModel) {
+    const existing = (await this.kv.get<UsageByModel>(key, "json")) || {};
+    await this.kv.put(key, JSON.stringify(mergeUsage(existing, usage)));
+  }
+}
@@ -0,0 +1,65 @@
+import type { TokenUsage } from "@/lib/llm";
+import { logger } from "@/lib/logger";
+import { getModelPricing } from "@/lib/models";
+import type { UsageByModel, UsageTotals } from "./types";
+
+export function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, cachedPromptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+export function addTotals(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    requests: a.requests + b.requests,
+    promptTokens: a.promptTokens + b.promptTokens,
+    cachedPromptTokens: a.cachedPromptTokens + b.cachedPromptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    cost: a.cost + b.cost,
+  };
+}
+
+export function mergeUsage(a: UsageByModel, b: UsageByModel): UsageByModel {
+  const merged = { ...a };
+  for (const [model, totals] of Object.entries(b)) {
+    merged[model] = addTotals(merged[model] || emptyTotals(), totals);
+  }
+  return merged;
+}
+
+export function sumUsage(usage: UsageByModel): UsageTotals {
+  return Object.values(usage).reduce(addTotals, emptyTotals());
+}
+
+/**
+ * Collects the usage reported by every completion in a chat turn, priced
+ * per model.
+ */
+export class UsageLedger {
+  readonly byModel: UsageByModel = {};
+
+  add(model: string, usage: TokenUsage) {
+    const cached = usage.cachedPromptTokens;
+    const pricing = getModelPricing(model);
+    if (!pricing) logger.warn("No pricing configured for model; counting its cost as 0", { model });
+
+    const cost = pricing
+      ? ((usage.promptTokens - cached) * pricing.input +
+          cached * pricing.cachedInput +
+          usage.completionTokens * pricing.output) /
+        1_000_000
+      : 0;
+
+    this.byModel[model] = addTotals(this.byModel[model] || emptyTotals(), {
+      requests: 1,
+      promptTokens: usage.promptTokens,
+      cachedPromptTokens: cached,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      cost,
+    });
+  }
+
+  get total(): UsageTotals {
+    return sumUsage(this.byModel);
+  }
+}
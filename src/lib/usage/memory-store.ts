@@ -0,0 +1,22 @@
+import { mergeUsage } from "./ledger";
+import type { DailyUsage, UsageByModel, UsageStore } from "./types";
+
+export class MemoryUsageStore implements UsageStore {
+  private days = new Map<string, UsageByModel>();
+  private conversations = new Map<string, UsageByModel>();
+
+  async record(date: string, conversationId: string | undefined, usage: UsageByModel): Promise<void> {
+    this.days.set(date, mergeUsage(this.days.get(date) || {}, usage));
+    if (conversationId) {
+      this.conversations.set(conversationId, mergeUsage(this.conversations.get(conversationId) || {}, usage));
+    }
+  }
+
+  async getDays(dates: string[]): Promise<DailyUsage[]> {
+    return dates.map((date) => ({ date, byModel: this.days.get(date) || {} }));
+  }
+
+  async getConversation(conversationId: string): Promise<UsageByModel | null> {
+    return this.conversations.get(conversationId) ?? null;
+  }
+}
@@ -0,0 +1,24 @@
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  cachedPromptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** USD, from the pricing table in `@/lib/models`. */
+  cost: number;
+}
+
+/** Usage broken down by model name. */
+export type UsageByModel = Record<string, UsageTotals>;
+
+export interface DailyUsage {
+  date: string;
+  byModel: UsageByModel;
+}
+
+export interface UsageStore {
+  /** Adds one chat turn's usage to its day and, when given, its conversation. */
+  record(date: string, conversationId: string | undefined, usage: UsageByModel): Promise<void>;
+  getDays(dates: string[]): Promise<DailyUsage[]>;
+  getConversation(conversationId: string): Promise<UsageByModel | null>;
+}
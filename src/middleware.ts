@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { BrandConfigError, resolveBrand } from "@/lib/brands";
+import { issueEmbedClientId } from "@/lib/client-id";
+
+/**
+ * Lets only the brand's `embedOrigins` frame the chat widget, when the brand
+ * lists any, and issues the cookie the framed chat is identified by.
+ */
+export function middleware(request: NextRequest) {
+  const response = NextResponse.next();
+  issueEmbedClientId(request, response);
+  try {
+    const brand = resolveBrand({ id: request.nextUrl.searchParams.get("brand"), host: request.headers.get("host") });
+    if (brand?.embedOrigins) {
+      response.headers.set("Content-Security-Policy", `frame-ancestors 'self' ${brand.embedOrigins.join(" ")}`);
+    }
+  } catch (error) {
+    // The page itself reports a broken BRAND_PROFILES.
+    if (!(error instanceof BrandConfigError)) throw error;
+  }
+  return response;
+}
+
+export const config = { matcher: "/embed" };
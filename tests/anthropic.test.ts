@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { AnthropicProvider } from "@/lib/llm/anthropic";
+import type { ChatStreamEvent } from "@/lib/llm/types";
+
+const provider = new AnthropicProvider({ apiKey: "test-key", baseUrl: "http://anthropic.test" });
+
+/** Stubs fetch with a response made of `chunks`, recording the request bodies sent. */
+function respondWith(chunks: string[] | Record<string, unknown>) {
+  const bodies: Array<Record<string, unknown>> = [];
+  vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+    bodies.push(JSON.parse(String(init.body)));
+    if (!Array.isArray(chunks)) return Response.json(chunks);
+    const encoder = new TextEncoder();
+    return new Response(
+      new ReadableStream({
+        start(controller) {
+          for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+          controller.close();
+        },
+      })
+    );
+  });
+  return bodies;
+}
+
+async function collect(events: AsyncIterable<ChatStreamEvent>): Promise<ChatStreamEvent[]> {
+  const collected: ChatStreamEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("AnthropicProvider", () => {
+  test("folds system prompts, tool calls and tool results into alternating turns", async () => {
+    const bodies = respondWith({ content: [{ type: "text", text: "ok" }] });
+    await provider.complete({
+      model: "claude",
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Where are orders 1 and 2?" },
+        {
+          role: "assistant",
+          content: "Checking.",
+          toolCalls: [
+            { id: "t1", name: "get_order", arguments: '{"id":"1"}' },
+            { id: "t2", name: "get_order", arguments: "not json" },
+          ],
+        },
+        { role: "tool", toolCallId: "t1", content: "shipped" },
+        { role: "tool", toolCallId: "t2", content: "pending" },
+        { role: "user", content: "Thanks" },
+      ],
+    });
+
+    expect(bodies[0].system).toBe("Be brief.");
+    expect(bodies[0].messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "Where are orders 1 and 2?" }] },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Checking." },
+          { type: "tool_use", id: "t1", name: "get_order", input: { id: "1" } },
+          { type: "tool_use", id: "t2", name: "get_order", input: {} },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "t1", content: "shipped" },
+          { type: "tool_result", tool_use_id: "t2", content: "pending" },
+          { type: "text", text: "Thanks" },
+        ],
+      },
+    ]);
+  });
+
+  test("leaves out an assistant turn that was stopped before any output", async () => {
+    const bodies = respondWith({ content: [{ type: "text", text: "ok" }] });
+    await provider.complete({
+      model: "claude",
+      messages: [
+        { role: "user", content: "Where is my order?" },
+        { role: "assistant", content: "" },
+        { role: "user", content: "Hello?" },
+      ],
+    });
+
+    expect(bodies[0].messages).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Where is my order?" },
+          { type: "text", text: "Hello?" },
+        ],
+      },
+    ]);
+  });
+
+  test("reads a CRLF-framed stream split at any byte", async () => {
+    const stream = [
+      'event: message_start\r\ndata: {"type":"message_start","message":{"usage":{"input_tokens":10,"cache_read_input_tokens":5,"cache_creation_input_tokens":20}}}\r\n\r\n',
+      'event: content_block_delta\r\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hel"}}\r\n\r\n',
+      'data:{"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"lo"}}\r\n\r\n',
+      'data: {"type":"content_block_start","index":1,"content_block":{"type":"tool_use","id":"t1","name":"get_order"}}\r\n\r\n',
+      'data: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":"{\\"id\\":\\"1\\"}"}}\r\n\r\n',
+      'data: {"type":"message_delta","usage":{"output_tokens":7}}\r\n\r\n',
+    ].join("");
+    // Splits every CRLF between chunks, and the rest at odd offsets.
+    const chunks = stream.split(/(?<=\r)/).flatMap((piece) => piece.match(/[\s\S]{1,13}/g) ?? []);
+    respondWith(chunks);
+
+    const events = await collect(provider.streamChat({ model: "claude", messages: [{ role: "user", content: "Hi" }] }));
+
+    expect(events).toEqual([
+      { type: "text", text: "Hel" },
+      { type: "text", text: "lo" },
+      { type: "tool_call", toolCall: { id: "t1", name: "get_order", arguments: '{"id":"1"}' } },
+      { type: "usage", usage: { promptTokens: 35, cachedPromptTokens: 5, completionTokens: 7, totalTokens: 42 } },
+    ]);
+  });
+
+  test("counts cache writes as prompt tokens", async () => {
+    respondWith({
+      content: [{ type: "text", text: "Done" }],
+      usage: { input_tokens: 10, output_tokens: 3, cache_read_input_tokens: 4, cache_creation_input_tokens: 100 },
+    });
+    const result = await provider.complete({ model: "claude", messages: [{ role: "user", content: "Hi" }] });
+    expect(result.usage).toEqual({ promptTokens: 114, cachedPromptTokens: 4, completionTokens: 3, totalTokens: 117 });
+  });
+});
@@ -0,0 +1,23 @@
+import { afterEach, expect, test, vi } from "vitest";
+import { MemoryAttachmentStore } from "@/lib/attachments/memory-store";
+import { UNREFERENCED_TTL_SECONDS, type StoredAttachment } from "@/lib/attachments/types";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function attachment(id: string): StoredAttachment {
+  return { ref: { id, name: `${id}.png`, mimeType: "image/png", size: 3 }, data: "AAAA" };
+}
+
+test("uploads expire unless a sent message keeps them", async () => {
+  vi.useFakeTimers();
+  const store = new MemoryAttachmentStore();
+  await store.put("c1", attachment("sent"));
+  await store.put("c1", attachment("orphan"));
+  await store.keep("c1", [attachment("sent")]);
+
+  vi.advanceTimersByTime(UNREFERENCED_TTL_SECONDS * 1000);
+  expect(await store.get("c1", "sent")).not.toBeNull();
+  expect(await store.get("c1", "orphan")).toBeNull();
+});
@@ -0,0 +1,22 @@
+import { afterEach, expect, test } from "vitest";
+import { ChatSettingsSchema } from "@/lib/chat-settings";
+import { DEFAULT_CHAT_SETTINGS } from "@/lib/chat-settings/defaults";
+
+afterEach(() => {
+  delete process.env.BRAND_PROFILES;
+});
+
+test("ChatSettingsSchema keeps every brand's default tone and language available", () => {
+  process.env.BRAND_PROFILES = JSON.stringify([
+    { id: "techgear", name: "TechGear", persona: "You support TechGear." },
+    { id: "acme", name: "Acme", persona: "You support Acme.", defaultTone: "friendly", defaultLanguage: "es" },
+  ]);
+  expect(ChatSettingsSchema.safeParse(DEFAULT_CHAT_SETTINGS).success).toBe(true);
+
+  const parsed = ChatSettingsSchema.safeParse({
+    ...DEFAULT_CHAT_SETTINGS,
+    tones: DEFAULT_CHAT_SETTINGS.tones.filter((t) => t.id !== "friendly"),
+    languages: DEFAULT_CHAT_SETTINGS.languages.map((l) => (l.code === "es" ? { ...l, enabled: false } : l)),
+  });
+  expect(parsed.error?.issues.map((issue) => issue.path)).toEqual([["tones"], ["languages"]]);
+});
@@ -0,0 +1,28 @@
+import { afterEach, expect, test, vi } from "vitest";
+import { cancelChatStream, createChatStream } from "@/lib/chat-streams";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+test("a request aborted before it is answered leaves the reply to the resume window", () => {
+  vi.useFakeTimers();
+  const cancel = vi.fn();
+  const stream = createChatStream("c1", cancel);
+
+  stream.respond(AbortSignal.abort());
+  vi.advanceTimersByTime(60_000);
+  expect(cancel).toHaveBeenCalledOnce();
+});
+
+test("a reply can be stopped under the stream ID the client chose", () => {
+  const id = crypto.randomUUID();
+  const cancel = vi.fn();
+  expect(createChatStream("c1", cancel, id).id).toBe(id);
+  expect(createChatStream("c2", vi.fn(), id).id).not.toBe(id);
+  expect(createChatStream("c1", vi.fn(), "not-a-uuid").id).not.toBe("not-a-uuid");
+
+  expect(cancelChatStream(id, "c2")).toBe(false);
+  expect(cancelChatStream(id, "c1")).toBe(true);
+  expect(cancel).toHaveBeenCalledOnce();
+});
@@ -0,0 +1,17 @@
+import { expect, test } from "vitest";
+import { MemoryConversationStore } from "@/lib/conversations/memory-store";
+
+test("MemoryConversationStore drops the least recently updated conversations when full", async () => {
+  const store = new MemoryConversationStore();
+  const first = await store.create("c1");
+  const second = await store.create("c1");
+  await store.append("c1", first.id, [{ role: "user", content: "Still here?" }]);
+
+  // Each conversation counts once, plus once per message.
+  for (let i = 0; i < 20_000 - 3; i++) await store.create("c2");
+  expect(await store.get("c1", second.id)).not.toBeNull();
+
+  await store.create("c2");
+  expect(await store.get("c1", second.id)).toBeNull();
+  expect(await store.get("c1", first.id)).not.toBeNull();
+});
@@ -0,0 +1,68 @@
+import { beforeAll, beforeEach, describe, expect, test, vi } from "vitest";
+import { ATTACHMENT_LIMITS } from "@/lib/chat-contract";
+
+// Route handlers read the anonymous client ID from the request cookies.
+const session = vi.hoisted(() => ({ clientId: "" }));
+vi.mock("next/headers", () => ({
+  cookies: async () => ({ get: () => ({ value: session.clientId }), set: () => {} }),
+}));
+
+const { POST: upload } = await import("@/app/api/attachments/route");
+
+const TOO_LARGE = ATTACHMENT_LIMITS.maxDocumentBytes + 1024 * 1024;
+
+beforeAll(() => {
+  process.env.RATE_LIMIT_REQUESTS_PER_MINUTE = "1000";
+});
+
+beforeEach(() => {
+  session.clientId = crypto.randomUUID();
+});
+
+describe("POST /api/attachments", () => {
+  test("stores a file within the limits", async () => {
+    const form = new FormData();
+    form.append("file", new File([new Uint8Array([1, 2, 3])], "photo.png", { type: "image/png" }));
+    const response = await upload(new Request("http://localhost/api/attachments", { method: "POST", body: form }));
+    expect(response.status).toBe(201);
+  });
+
+  test("refuses a declared length over the limit before reading the body", async () => {
+    const body = new ReadableStream({
+      pull() {
+        throw new Error("The body should not be read");
+      },
+    });
+    const response = await upload(
+      new Request("http://localhost/api/attachments", {
+        method: "POST",
+        headers: { "Content-Type": "multipart/form-data; boundary=x", "Content-Length": String(TOO_LARGE) },
+        body,
+        duplex: "half",
+      } as RequestInit)
+    );
+    expect(response.status).toBe(413);
+  });
+
+  test("stops reading a body that grows past the limit", async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent >= 4 * TOO_LARGE) return controller.close();
+        sent += chunk.length;
+        controller.enqueue(chunk);
+      },
+    });
+    const response = await upload(
+      new Request("http://localhost/api/attachments", {
+        method: "POST",
+        headers: { "Content-Type": "multipart/form-data; boundary=x" },
+        body,
+        duplex: "half",
+      } as RequestInit)
+    );
+    expect(response.status).toBe(413);
+    expect(sent).toBeLessThan(2 * TOO_LARGE);
+  });
+});
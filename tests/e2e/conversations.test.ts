@@ -0,0 +1,89 @@
+import path from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, test, vi } from "vitest";
+import { loadScenarios, missingInOrder, runScenario } from "./harness";
+import { startMockMcp, type MockMcp } from "./mock-mcp";
+import { startMockOpenAI, type MockOpenAI } from "./mock-openai";
+
+// Route handlers read the anonymous client ID from the request cookies.
+const session = vi.hoisted(() => ({ clientId: "" }));
+vi.mock("next/headers", () => ({
+  cookies: async () => ({ get: () => ({ value: session.clientId }), set: () => {} }),
+}));
+
+const { POST: chat } = await import("@/app/api/chat/route");
+const { POST: approve } = await import("@/app/api/chat/approvals/[id]/route");
+
+// Nothing listens on the discard port, so connecting fails straight away.
+const OFFLINE_MCP_URL = "http://127.0.0.1:9/mcp";
+
+let openai: MockOpenAI;
+let mcp: MockMcp;
+
+beforeAll(async () => {
+  [openai, mcp] = await Promise.all([startMockOpenAI(), startMockMcp()]);
+  process.env.OPENAI_API_KEY = "test-key";
+  process.env.LLM_PROVIDERS = JSON.stringify({ "*": { type: "openai", baseUrl: openai.baseUrl } });
+  process.env.RATE_LIMIT_REQUESTS_PER_MINUTE = "1000";
+  process.env.TOOL_APPROVAL_TIMEOUT_MS = "5000";
+  // Keeps retry backoff from slowing the suite down.
+  process.env.RETRY_BASE_DELAY_MS = "1";
+});
+
+afterAll(async () => {
+  await Promise.all([openai?.close(), mcp?.close()]);
+});
+
+beforeEach(() => {
+  session.clientId = crypto.randomUUID();
+  mcp.calls.length = 0;
+});
+
+describe.each(loadScenarios(path.join(__dirname, "scenarios")))("$name ($file)", (scenario) => {
+  test("replays through POST /api/chat", async () => {
+    process.env.MCP_SERVERS = JSON.stringify([{ name: "store", url: scenario.mcp === "down" ? OFFLINE_MCP_URL : mcp.url }]);
+    openai.script(scenario.openai);
+
+    const saved = Object.fromEntries(Object.keys(scenario.env).map((name) => [name, process.env[name]]));
+    Object.assign(process.env, scenario.env);
+    const result = await runScenario(scenario, { clientId: session.clientId, chat, approve }).finally(() => {
+      for (const [name, value] of Object.entries(saved)) {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+    });
+    const { expect: expected } = scenario;
+
+    expect(result.status).toBe(expected.status);
+    expect(result.requestId).toBeTruthy();
+    const final = result.events.find((event) => event.type === "done" || event.type === "error");
+    if (final) expect(final.requestId).toBe(result.requestId);
+    const types = result.events.map((event) => event.type);
+    if (expected.events) {
+      expect(missingInOrder(types, expected.events), `events were: ${types.join(", ")}`).toBeNull();
+    }
+    if (expected.text !== undefined) expect(result.text).toBe(expected.text);
+    if (expected.toolCalls) {
+      expect(mcp.calls).toHaveLength(expected.toolCalls.length);
+      expect(mcp.calls).toEqual(expect.arrayContaining(expected.toolCalls));
+    }
+    if (expected.toolResults) {
+      const sentBack = openai.requests
+        .flatMap((request) => request.messages)
+        .filter((message) => message.role === "tool")
+        .map((message) => String(message.content));
+      for (const part of expected.toolResults) {
+        expect(sentBack.some((content) => content.includes(part)), `tool results were: ${sentBack.join(" | ")}`).toBe(true);
+      }
+    }
+    if (expected.error) {
+      const errors = result.events.filter((event) => event.type === "error").map((event) => String(event.content));
+      expect(errors.join("\n")).toContain(expected.error);
+    }
+    if (expected.warning) {
+      const warnings = result.events.filter((event) => event.type === "warning").map((event) => String(event.content));
+      expect(warnings.join("\n")).toContain(expected.warning);
+    }
+    if (expected.completions !== undefined) expect(openai.requests).toHaveLength(expected.completions);
+    if (expected.models) expect(openai.requests.map((request) => request.model)).toEqual(expected.models);
+  });
+});
@@ -0,0 +1,76 @@
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, test, vi } from "vitest";
+import { STREAM_ID_HEADER } from "@/lib/chat-contract";
+import { readSseEvents } from "@/lib/sse-client";
+import { middleware } from "@/middleware";
+import type { ChatEvent } from "./harness";
+import { startMockMcp, type MockMcp } from "./mock-mcp";
+import { startMockOpenAI, type MockOpenAI } from "./mock-openai";
+
+// The cookies of the widget's frame on a storefront. A cross-site frame is
+// sent only SameSite=None cookies, and the browser does not keep Lax ones.
+const frame = vi.hoisted(() => ({ cookies: new Map<string, string>() }));
+vi.mock("next/headers", () => ({
+  cookies: async () => ({
+    get: (name: string) => (frame.cookies.has(name) ? { name, value: frame.cookies.get(name) } : undefined),
+    set: (name: string, value: string, options?: { sameSite?: string; secure?: boolean }) => {
+      if (options?.sameSite === "none" && options.secure) frame.cookies.set(name, value);
+    },
+  }),
+}));
+
+const { POST: createConversation } = await import("@/app/api/conversations/route");
+const { POST: chat } = await import("@/app/api/chat/route");
+const { GET: resumeStream } = await import("@/app/api/chat/streams/[id]/route");
+
+let openai: MockOpenAI;
+let mcp: MockMcp;
+
+beforeAll(async () => {
+  [openai, mcp] = await Promise.all([startMockOpenAI(), startMockMcp()]);
+  process.env.OPENAI_API_KEY = "test-key";
+  process.env.LLM_PROVIDERS = JSON.stringify({ "*": { type: "openai", baseUrl: openai.baseUrl } });
+  process.env.MCP_SERVERS = JSON.stringify([{ name: "store", url: mcp.url }]);
+  process.env.RATE_LIMIT_REQUESTS_PER_MINUTE = "1000";
+});
+
+afterAll(async () => {
+  await Promise.all([openai?.close(), mcp?.close()]);
+});
+
+describe("chat framed by the widget", () => {
+  test("keeps one client ID without the first-party cookie", async () => {
+    const page = middleware(new NextRequest("http://localhost/embed"));
+    const cookie = page.headers.get("set-cookie") ?? "";
+    expect(cookie).toMatch(/^support_embed_client_id=[\w-]+;/);
+    expect(cookie).toMatch(/SameSite=none/i);
+    expect(cookie).toContain("Secure");
+    expect(cookie).toContain("Partitioned");
+    frame.cookies.set("support_embed_client_id", cookie.split(";")[0].split("=")[1]);
+
+    const created = await createConversation(new Request("http://localhost/api/conversations", { method: "POST" }));
+    expect(created.status).toBe(201);
+    const { conversation } = (await created.json()) as { conversation: { id: string } };
+
+    openai.script([{ content: "Hi! How can I help?" }]);
+    const response = await chat(
+      new Request("http://localhost/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Forwarded-For": "127.0.0.1" },
+        body: JSON.stringify({ conversationId: conversation.id, message: [{ type: "text", text: "Hello" }] }),
+      })
+    );
+    expect(response.status).toBe(200);
+    const events: ChatEvent[] = [];
+    await readSseEvents<ChatEvent>(response, (event) => events.push(event));
+    expect(events.map((event) => event.type)).toContain("done");
+
+    const streamId = response.headers.get(STREAM_ID_HEADER) ?? "";
+    const resumed = await resumeStream(
+      new Request(`http://localhost/api/chat/streams/${streamId}`, { headers: { "Last-Event-ID": "0" } }),
+      { params: Promise.resolve({ id: streamId }) }
+    );
+    expect(resumed.status).toBe(200);
+    await resumed.body?.cancel();
+  });
+});
@@ -0,0 +1,143 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { parse } from "yaml";
+import { z } from "zod";
+import { getConversationStore } from "@/lib/conversations";
+import { REQUEST_ID_HEADER } from "@/lib/logger";
+import { readSseEvents } from "@/lib/sse-client";
+import type { MockCompletion } from "./mock-openai";
+
+const MockCompletionSchema: z.ZodType<MockCompletion> = z.union([
+  z.object({ status: z.number().int(), error: z.string() }).strict(),
+  z
+    .object({
+      content: z.union([z.string(), z.array(z.string())]).optional(),
+      toolCalls: z.array(
+        z.object({ id: z.string().optional(), name: z.string(), arguments: z.union([z.record(z.unknown()), z.string()]) })
+      ),
+    })
+    .strict(),
+  z.object({ content: z.union([z.string(), z.array(z.string())]) }).strict(),
+]);
+
+export const ScenarioSchema = z
+  .object({
+    name: z.string(),
+    /** "down" points the chat at an MCP server that refuses connections. */
+    mcp: z.enum(["up", "down"]).default("up"),
+    /** Environment variables set for this scenario only, e.g. timeouts or MODEL_FALLBACKS. */
+    env: z.record(z.string()).default({}),
+    /** Sends the message in a stored conversation, which also enables the handoff tool. */
+    conversation: z.boolean().default(false),
+    request: z.object({
+      message: z.string(),
+      model: z.string().optional(),
+      tone: z.string().optional(),
+      language: z.string().optional(),
+    }),
+    /** The customer's answer when a tool (by its name on the MCP server) asks for approval. */
+    approvals: z.record(z.enum(["approve", "deny"])).default({}),
+    /** Answers of the mock model, one per chat completions request. */
+    openai: z.array(MockCompletionSchema).default([]),
+    expect: z
+      .object({
+        status: z.number().int().default(200),
+        /** Event types that must appear in this order; others may come in between. */
+        events: z.array(z.string()).optional(),
+        /** The streamed reply text, exactly. */
+        text: z.string().optional(),
+        /** Every call the MCP server received; calls from the same round run in parallel, so in any order. */
+        toolCalls: z.array(z.object({ name: z.string(), arguments: z.record(z.unknown()) })).optional(),
+        /** Substrings of the tool results the model was sent back. */
+        toolResults: z.array(z.string()).optional(),
+        error: z.string().optional(),
+        warning: z.string().optional(),
+        completions: z.number().int().optional(),
+        /** The model of each chat completions request, in order. */
+        models: z.array(z.string()).optional(),
+      })
+      .strict(),
+  })
+  .strict();
+
+export type Scenario = z.infer<typeof ScenarioSchema>;
+
+export interface ChatEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+/** Reads every `.yaml`, `.yml` and `.json` scenario in `dir`. */
+export function loadScenarios(dir: string): Array<Scenario & { file: string }> {
+  return readdirSync(dir)
+    .filter((file) => /\.(ya?ml|json)$/.test(file))
+    .sort()
+    .map((file) => {
+      const parsed = ScenarioSchema.safeParse(parse(readFileSync(path.join(dir, file), "utf8")));
+      if (!parsed.success) throw new Error(`${file}: ${parsed.error.message}`);
+      return { ...parsed.data, file };
+    });
+}
+
+/** The first expected item missing from `actual` in order, or null when all appear. */
+export function missingInOrder(actual: string[], expected: string[]): string | null {
+  let position = 0;
+  for (const item of expected) {
+    const found = actual.indexOf(item, position);
+    if (found === -1) return item;
+    position = found + 1;
+  }
+  return null;
+}
+
+type Handler = (request: Request, context: { params: Promise<{ id: string }> }) => Promise<Response>;
+
+/**
+ * Sends the scenario's message through the chat route and collects the SSE
+ * events, answering approval prompts through the approvals route as they come.
+ */
+export async function runScenario(
+  scenario: Scenario,
+  options: { clientId: string; chat: (request: Request) => Promise<Response>; approve: Handler }
+): Promise<{ status: number; requestId: string | null; events: ChatEvent[]; text: string }> {
+  const { message, ...settings } = scenario.request;
+  let body: Record<string, unknown> = { messages: [{ role: "user", content: message }], ...settings };
+  if (scenario.conversation) {
+    const conversation = await getConversationStore().create(options.clientId);
+    body = { conversationId: conversation.id, message: [{ type: "text", text: message }], ...settings };
+  }
+
+  const response = await options.chat(
+    new Request("http://localhost/api/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Forwarded-For": "127.0.0.1" },
+      body: JSON.stringify(body),
+    })
+  );
+  const requestId = response.headers.get(REQUEST_ID_HEADER);
+  if (!response.ok) return { status: response.status, requestId, events: [], text: "" };
+
+  const events: ChatEvent[] = [];
+  const decisions: Promise<Response>[] = [];
+  await readSseEvents<ChatEvent>(response, (event) => {
+    events.push(event);
+    if (event.type !== "approval_required") return;
+    const tool = String(event.name).split("__").pop() ?? "";
+    const decision = scenario.approvals[tool];
+    if (!decision) return;
+    decisions.push(
+      options.approve(
+        new Request(`http://localhost/api/chat/approvals/${event.approvalId}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ approved: decision === "approve" }),
+        }),
+        { params: Promise.resolve({ id: String(event.approvalId) }) }
+      )
+    );
+  });
+  await Promise.all(decisions);
+
+  const text = events.flatMap((event) => (event.type === "content" ? [String(event.content)] : [])).join("");
+  return { status: response.status, requestId, events, text };
+}
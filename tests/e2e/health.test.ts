@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { GET } from "@/app/api/health/route";
+import type { HealthReport } from "@/lib/health";
+import { McpConnection } from "@/lib/mcp";
+import { startMockMcp, type MockMcp } from "./mock-mcp";
+import { startMockOpenAI, type MockOpenAI } from "./mock-openai";
+
+let openai: MockOpenAI;
+let mcp: MockMcp;
+
+beforeAll(async () => {
+  [openai, mcp] = await Promise.all([startMockOpenAI(), startMockMcp()]);
+  process.env.OPENAI_API_KEY = "test-key";
+  process.env.ADMIN_API_TOKEN = "admin-token";
+  process.env.HEALTH_CACHE_MS = "0";
+  process.env.LLM_PROVIDERS = JSON.stringify({ "*": { type: "openai", baseUrl: openai.baseUrl } });
+});
+
+afterAll(async () => {
+  await Promise.all([openai?.close(), mcp?.close()]);
+});
+
+const probe = (token?: string) =>
+  GET(new Request("http://localhost/api/health", { headers: token ? { Authorization: `Bearer ${token}` } : {} }));
+
+describe("GET /api/health", () => {
+  test("reports every dependency reachable", async () => {
+    process.env.MCP_SERVERS = JSON.stringify([{ name: "store", url: mcp.url }]);
+    const response = await probe("admin-token");
+    const report = (await response.json()) as HealthReport;
+
+    expect(response.status).toBe(200);
+    expect(report.status).toBe("ok");
+    expect(report.mcp).toEqual([expect.objectContaining({ name: "store", ok: true, tools: 5, circuit: "closed" })]);
+    expect(report.llm).toEqual([
+      expect.objectContaining({ provider: "OpenAI", ok: true, models: ["gpt-5.2", "gpt-5-mini", "gpt-5-nano"] }),
+    ]);
+  });
+
+  test("reports an unreachable MCP server as degraded", async () => {
+    process.env.MCP_SERVERS = JSON.stringify([
+      { name: "store", url: mcp.url },
+      { name: "offline", url: "http://127.0.0.1:9/mcp" },
+    ]);
+    const response = await probe("admin-token");
+    const report = (await response.json()) as HealthReport;
+
+    expect(response.status).toBe(503);
+    expect(report.status).toBe("degraded");
+    expect(report.mcp.find((check) => check.name === "offline")).toMatchObject({ ok: false });
+  });
+
+  test("reports down when no LLM provider answers", async () => {
+    process.env.MCP_SERVERS = JSON.stringify([{ name: "store", url: mcp.url }]);
+    process.env.LLM_PROVIDERS = JSON.stringify({ "*": { type: "openai", baseUrl: "http://127.0.0.1:9/v1" } });
+    const response = await probe("admin-token");
+    const report = (await response.json()) as HealthReport;
+
+    expect(response.status).toBe(503);
+    expect(report.status).toBe("down");
+    expect(report.llm[0]).toMatchObject({ ok: false });
+  });
+
+  test("answers anonymous probes without checking dependencies", async () => {
+    process.env.MCP_SERVERS = JSON.stringify([{ name: "offline", url: "http://127.0.0.1:9/mcp" }]);
+    const response = await probe();
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: "ok", checkedAt: expect.any(String) });
+  });
+
+  test("reuses a recent report", async () => {
+    process.env.MCP_SERVERS = JSON.stringify([{ name: "store", url: mcp.url }]);
+    process.env.HEALTH_CACHE_MS = "60000";
+    try {
+      const [first, second] = await Promise.all([probe("admin-token"), probe("admin-token")]);
+      const third = await probe("admin-token");
+      const checkedAt = await Promise.all([first, second, third].map(async (r) => ((await r.json()) as HealthReport).checkedAt));
+      expect(new Set(checkedAt).size).toBe(1);
+    } finally {
+      process.env.HEALTH_CACHE_MS = "0";
+    }
+  });
+});
+
+test("McpConnection drops a session whose handshake finishes after close()", async () => {
+  const connection = new McpConnection({ name: "store", url: mcp.url }, 0);
+  const listing = connection.listTools();
+  await connection.close();
+
+  await expect(listing).rejects.toThrow("Not connected");
+  expect(connection["client"]).toBeNull();
+});
@@ -0,0 +1,138 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { z } from "zod";
+
+export interface RecordedToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface MockMcp {
+  url: string;
+  calls: RecordedToolCall[];
+  close: () => Promise<void>;
+}
+
+const PRODUCTS = [
+  { sku: "X200", name: "X200 Wireless Headphones", price: 129.99, currency: "USD", stockQuantity: 14 },
+  { sku: "K7", name: "K7 Mechanical Keyboard", price: 89, currency: "USD", stockQuantity: 2 },
+  { sku: "C9", name: "C9 USB-C Charger", price: 25, currency: "USD", stockQuantity: 0 },
+];
+
+/** Longer than the tool timeout the timeout scenario sets. */
+const WAREHOUSE_DELAY_MS = 1000;
+
+const ORDERS: Record<string, Record<string, unknown>> = {
+  "1001": {
+    orderId: "1001",
+    status: "shipped",
+    placedAt: "2026-10-01",
+    items: [{ name: "X200 Wireless Headphones", quantity: 1 }],
+    trackingNumber: "1Z999",
+  },
+};
+
+/**
+ * A fresh server per request: the fixture tools are stateless, so the transport can be too.
+ * `dropConnection` cuts the request's connection, as a crash or network fault would.
+ */
+function createFixtureServer(calls: RecordedToolCall[], dropConnection: () => void): McpServer {
+  const server = new McpServer({ name: "mock-store", version: "1.0.0" });
+  const record = (name: string, args: Record<string, unknown>) => calls.push({ name, arguments: args });
+
+  server.registerTool(
+    "search_products",
+    { description: "Search the product catalog", inputSchema: { query: z.string() } },
+    async (args) => {
+      record("search_products", args);
+      const query = args.query.toLowerCase();
+      const products = PRODUCTS.filter((p) => p.name.toLowerCase().includes(query) || p.sku.toLowerCase() === query);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ products }) }],
+        structuredContent: { products },
+      };
+    }
+  );
+
+  server.registerTool(
+    "get_order",
+    { description: "Look up an order by its ID", inputSchema: { orderId: z.string() } },
+    async (args) => {
+      record("get_order", args);
+      const order = ORDERS[args.orderId];
+      if (!order) return { content: [{ type: "text", text: `Order ${args.orderId} not found` }], isError: true };
+      return { content: [{ type: "text", text: JSON.stringify(order) }], structuredContent: order };
+    }
+  );
+
+  server.registerTool(
+    "create_return",
+    {
+      description: "Start a return for an order",
+      inputSchema: { orderId: z.string(), reason: z.string() },
+      annotations: { destructiveHint: true },
+    },
+    async (args) => {
+      record("create_return", args);
+      const created = { returnId: "R-1", orderId: args.orderId, status: "requested" };
+      return { content: [{ type: "text", text: JSON.stringify(created) }], structuredContent: created };
+    }
+  );
+
+  server.registerTool(
+    "cancel_order",
+    {
+      description: "Cancel an order; the connection drops after it has been cancelled",
+      inputSchema: { orderId: z.string() },
+      annotations: { destructiveHint: true },
+    },
+    async (args) => {
+      record("cancel_order", args);
+      dropConnection();
+      return { content: [{ type: "text", text: JSON.stringify({ orderId: args.orderId, status: "cancelled" }) }] };
+    }
+  );
+
+  server.registerTool(
+    "check_warehouse",
+    { description: "Check stock at the warehouse, which answers slowly", inputSchema: { sku: z.string() } },
+    async (args) => {
+      record("check_warehouse", args);
+      await new Promise((resolve) => setTimeout(resolve, WAREHOUSE_DELAY_MS));
+      return { content: [{ type: "text", text: JSON.stringify({ sku: args.sku, warehouseQuantity: 40 }) }] };
+    }
+  );
+
+  return server;
+}
+
+/** An in-process MCP server over streamable HTTP with store fixture tools, recording every call. */
+export async function startMockMcp(): Promise<MockMcp> {
+  const calls: RecordedToolCall[] = [];
+
+  const http: Server = createServer(async (request, response) => {
+    const server = createFixtureServer(calls, () => response.socket?.destroy());
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined, enableJsonResponse: true });
+    response.on("close", () => {
+      transport.close();
+      server.close();
+    });
+    await server.connect(transport);
+    await transport.handleRequest(request, response);
+  });
+
+  await new Promise<void>((resolve) => http.listen(0, "127.0.0.1", resolve));
+  const { port } = http.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    calls,
+    close: () =>
+      new Promise((resolve) => {
+        http.closeAllConnections();
+        http.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,131 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/** One scripted answer to a chat completions request. */
+export type MockCompletion =
+  | { content: string | string[] }
+  | {
+      content?: string | string[];
+      /** `arguments` may be an object, or a raw string to send malformed JSON. `id` defaults to `call_<n>`. */
+      toolCalls: Array<{ id?: string; name: string; arguments: Record<string, unknown> | string }>;
+    }
+  | { status: number; error: string };
+
+export interface RecordedCompletionRequest {
+  model: string;
+  messages: Array<{ role: string; content?: unknown; tool_calls?: unknown[]; tool_call_id?: string }>;
+  tools?: Array<{ function: { name: string } }>;
+}
+
+export interface MockOpenAI {
+  baseUrl: string;
+  /** Replaces the script; each request takes the next completion. */
+  script: (completions: MockCompletion[]) => void;
+  requests: RecordedCompletionRequest[];
+  close: () => Promise<void>;
+}
+
+const USAGE = { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 };
+
+function readJson(request: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      try {
+        resolve(JSON.parse(body || "{}"));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    request.on("error", reject);
+  });
+}
+
+function chunk(delta: Record<string, unknown>, extra: Record<string, unknown> = {}) {
+  return {
+    id: "chatcmpl-mock",
+    object: "chat.completion.chunk",
+    created: 0,
+    model: "mock",
+    choices: [{ index: 0, delta, finish_reason: null }],
+    ...extra,
+  };
+}
+
+/** The streamed chunks of a completion, split the way OpenAI splits them: text in deltas, tool arguments in pieces. */
+function toChunks(completion: Exclude<MockCompletion, { status: number }>) {
+  const chunks: unknown[] = [chunk({ role: "assistant" })];
+  const content = completion.content ?? [];
+  for (const text of Array.isArray(content) ? content : [content]) chunks.push(chunk({ content: text }));
+
+  if ("toolCalls" in completion) {
+    completion.toolCalls.forEach((toolCall, index) => {
+      const args = typeof toolCall.arguments === "string" ? toolCall.arguments : JSON.stringify(toolCall.arguments);
+      const half = Math.ceil(args.length / 2);
+      chunks.push(
+        chunk({
+          tool_calls: [
+            { index, id: toolCall.id ?? `call_${index + 1}`, type: "function", function: { name: toolCall.name, arguments: args.slice(0, half) } },
+          ],
+        }),
+        chunk({ tool_calls: [{ index, function: { arguments: args.slice(half) } }] })
+      );
+    });
+  }
+  chunks.push({ ...chunk({}), choices: [], usage: USAGE });
+  return chunks;
+}
+
+/**
+ * A local chat completions server that streams scripted answers and records
+ * what it was sent, for pointing the OpenAI provider at through `baseUrl`.
+ */
+export async function startMockOpenAI(): Promise<MockOpenAI> {
+  let queue: MockCompletion[] = [];
+  const requests: RecordedCompletionRequest[] = [];
+
+  const server: Server = createServer(async (request, response) => {
+    if (request.method === "GET" && request.url?.endsWith("/models")) {
+      response.writeHead(200, { "Content-Type": "application/json" });
+      response.end(JSON.stringify({ object: "list", data: [{ id: "mock", object: "model", created: 0, owned_by: "mock" }] }));
+      return;
+    }
+    if (request.method !== "POST" || !request.url?.endsWith("/chat/completions")) {
+      response.writeHead(404).end();
+      return;
+    }
+    const body = (await readJson(request)) as RecordedCompletionRequest & { stream?: boolean };
+    requests.push({ model: body.model, messages: body.messages, tools: body.tools });
+
+    const completion = queue.shift();
+    if (!completion) {
+      response.writeHead(500, { "Content-Type": "application/json" });
+      response.end(JSON.stringify({ error: { message: "Mock OpenAI has no scripted completion left" } }));
+      return;
+    }
+    if ("status" in completion) {
+      // Tells the SDK not to retry, so each scripted error is seen exactly once.
+      response.writeHead(completion.status, { "Content-Type": "application/json", "x-should-retry": "false" });
+      response.end(JSON.stringify({ error: { message: completion.error, type: "mock_error" } }));
+      return;
+    }
+
+    response.writeHead(200, { "Content-Type": "text/event-stream" });
+    for (const data of toChunks(completion)) response.write(`data: ${JSON.stringify(data)}\n\n`);
+    response.end("data: [DONE]\n\n");
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    script: (completions) => {
+      queue = [...completions];
+      requests.length = 0;
+    },
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import type { Conversation } from "@/lib/conversations";
+import { CHAT_LIMITS } from "@/lib/chat-contract";
+import { MAX_IMPORT_BODY_BYTES, TRANSCRIPT_FORMAT, TRANSCRIPT_VERSION } from "@/lib/transcripts";
+
+// Route handlers read the anonymous client ID from the request cookies.
+const session = vi.hoisted(() => ({ clientId: "" }));
+vi.mock("next/headers", () => ({
+  cookies: async () => ({ get: () => ({ value: session.clientId }), set: () => {} }),
+}));
+
+const { POST: importTranscript } = await import("@/app/api/conversations/import/route");
+const { PUT: rate } = await import("@/app/api/conversations/[id]/messages/[messageId]/feedback/route");
+
+function transcript(messages: Array<Record<string, unknown>>) {
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    conversation: { title: "Refund" },
+    messages: messages.map((message) => ({ timestamp: "2026-10-01T10:00:00.000Z", ...message })),
+  };
+}
+
+function post(body: string) {
+  return importTranscript(new Request("http://localhost/api/conversations/import", { method: "POST", body }));
+}
+
+beforeEach(() => {
+  session.clientId = crypto.randomUUID();
+});
+
+describe("POST /api/conversations/import", () => {
+  test("stores assistant and agent turns as imported replies without their metadata", async () => {
+    const response = await post(
+      JSON.stringify(
+        transcript([
+          { role: "user", content: "Can I get a refund?" },
+          { role: "assistant", content: "Let me check.", model: "gpt-4o", tone: "friendly", language: "en" },
+          { role: "agent", agentName: "Dana", content: "Your refund of $500 is approved." },
+        ])
+      )
+    );
+    expect(response.status).toBe(201);
+    const { conversation } = (await response.json()) as { conversation: Conversation };
+    expect(
+      conversation.messages.map(({ role, agentName, model, tone, language, imported }) => ({
+        role,
+        agentName,
+        model,
+        tone,
+        language,
+        imported,
+      }))
+    ).toEqual([
+      { role: "user", imported: undefined },
+      { role: "assistant", imported: true },
+      { role: "assistant", imported: true },
+    ]);
+  });
+
+  test("applies the chat message length limit", async () => {
+    const response = await post(
+      JSON.stringify(transcript([{ role: "user", content: "x".repeat(CHAT_LIMITS.maxMessageLength + 1) }]))
+    );
+    expect(response.status).toBe(400);
+  });
+
+  test("is rate limited", async () => {
+    process.env.RATE_LIMIT_REQUESTS_PER_MINUTE = "1";
+    try {
+      const body = JSON.stringify(transcript([{ role: "user", content: "Hi" }]));
+      expect((await post(body)).status).toBe(201);
+      expect((await post(body)).status).toBe(429);
+    } finally {
+      delete process.env.RATE_LIMIT_REQUESTS_PER_MINUTE;
+    }
+  });
+
+  test("refuses a body over the size limit", async () => {
+    const response = await post(" ".repeat(MAX_IMPORT_BODY_BYTES + 1));
+    expect(response.status).toBe(413);
+  });
+
+  test("imported replies cannot be rated", async () => {
+    const response = await post(JSON.stringify(transcript([{ role: "assistant", content: "Your refund is approved." }])));
+    const { conversation } = (await response.json()) as { conversation: Conversation };
+    const [reply] = conversation.messages;
+
+    const rated = await rate(
+      new Request(`http://localhost/api/conversations/${conversation.id}/messages/${reply.id}/feedback`, {
+        method: "PUT",
+        body: JSON.stringify({ rating: "up" }),
+      }),
+      { params: Promise.resolve({ id: conversation.id, messageId: reply.id }) }
+    );
+    expect(rated.status).toBe(404);
+  });
+});
@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { getRateLimitKeys } from "@/lib/rate-limit";
+import { MemoryRateLimitStore } from "@/lib/rate-limit/memory-store";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("getRateLimitKeys", () => {
+  const keys = (headers: Record<string, string>) => getRateLimitKeys(new Request("http://localhost", { headers }), "c1");
+
+  test("prefers Cloudflare's connecting IP", () => {
+    expect(keys({ "cf-connecting-ip": "203.0.113.7", "x-forwarded-for": "1.1.1.1" })).toEqual(["ip:203.0.113.7", "client:c1"]);
+  });
+
+  test("uses the hop the proxy appended, not the client's own entries", () => {
+    expect(keys({ "x-forwarded-for": "1.1.1.1, 2.2.2.2, 203.0.113.7" })).toEqual(["ip:203.0.113.7", "client:c1"]);
+  });
+
+  test("falls back to the session alone", () => {
+    expect(keys({})).toEqual(["client:c1"]);
+  });
+});
+
+test("MemoryRateLimitStore sweeps expired buckets", async () => {
+  vi.useFakeTimers();
+  const store = new MemoryRateLimitStore();
+  await store.set("requests:ip:a", { tokens: 1, updatedAt: Date.now() }, 1);
+
+  vi.advanceTimersByTime(2 * 60 * 1000);
+  await store.set("requests:ip:b", { tokens: 1, updatedAt: Date.now() }, 1);
+
+  expect([...store["buckets"].keys()]).toEqual(["requests:ip:b"]);
+});
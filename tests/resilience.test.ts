@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { CircuitBreaker, CircuitOpenError, isTransientError, retry, TimeoutError } from "@/lib/resilience";
+
+// Keeps retry backoff from slowing the suite down.
+process.env.RETRY_BASE_DELAY_MS = "1";
+
+const fail = (status: number) => () => Promise.reject(Object.assign(new Error(`HTTP ${status}`), { status }));
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("CircuitBreaker", () => {
+  test("opens after consecutive failures and fails fast until the cooldown ends", async () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker("mcp:test", { failureThreshold: 2, cooldownMs: 1000 });
+    const operation = vi.fn(fail(503));
+
+    await expect(breaker.run(operation)).rejects.toThrow("HTTP 503");
+    await expect(breaker.run(operation)).rejects.toThrow("HTTP 503");
+    expect(breaker.state).toBe("open");
+    await expect(breaker.run(operation)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(operation).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.state).toBe("half_open");
+    await expect(breaker.run(async () => "ok")).resolves.toBe("ok");
+    expect(breaker.state).toBe("closed");
+  });
+
+  test("reopens when the trial call fails", async () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker("mcp:test", { failureThreshold: 1, cooldownMs: 1000 });
+    await expect(breaker.run(fail(500))).rejects.toThrow();
+    vi.advanceTimersByTime(1000);
+
+    await expect(breaker.run(fail(500))).rejects.toThrow("HTTP 500");
+    expect(breaker.state).toBe("open");
+  });
+
+  test("ignores errors that are not failures of the upstream", async () => {
+    const breaker = new CircuitBreaker("mcp:test", { failureThreshold: 1, cooldownMs: 1000 });
+    await expect(breaker.run(fail(400), isTransientError)).rejects.toThrow();
+    expect(breaker.state).toBe("closed");
+  });
+});
+
+describe("retry", () => {
+  test("retries transient errors up to the limit", async () => {
+    const operation = vi.fn(fail(429));
+    await expect(retry(operation, { retries: 2, isRetryable: isTransientError })).rejects.toThrow("HTTP 429");
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  test("does not retry other errors", async () => {
+    const operation = vi.fn(fail(401));
+    await expect(retry(operation, { retries: 2, isRetryable: isTransientError })).rejects.toThrow("HTTP 401");
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+test("isTransientError", () => {
+  expect(isTransientError(new TimeoutError(100))).toBe(true);
+  expect(isTransientError({ status: 529 })).toBe(true);
+  expect(isTransientError({ code: 503 })).toBe(true);
+  expect(isTransientError(Object.assign(new TypeError("fetch failed"), { cause: { code: "ECONNREFUSED" } }))).toBe(true);
+  expect(isTransientError({ status: 404 })).toBe(false);
+  expect(isTransientError(new Error("Invalid arguments"))).toBe(false);
+});